@@ -1,17 +1,12 @@
-import { GeminiService } from '../gemini';
+import { createProvider, LLMProvider } from '../../llm';
 import { IssueAnalysis, GitHubIssue } from '../../types';
 import { logger } from '../../utils/logger';
-import { z } from 'zod';
 
 /**
  * Analyzes GitHub issues to extract semantic meaning and technical context.
  */
 export class IssueAnalyzer {
-  private service: GeminiService;
-
-  constructor(apiKey: string = process.env.GEMINI_API_KEY!) {
-    this.service = new GeminiService(apiKey);
-  }
+  constructor(private provider: LLMProvider = createProvider()) { }
 
   /**
    * Performs a deep analysis of a GitHub issue using specialized AI models.
@@ -19,8 +14,6 @@ export class IssueAnalyzer {
   async analyze(issue: GitHubIssue): Promise<IssueAnalysis> {
     logger.info(`Analyzing issue: ${issue.title}`);
 
-    const model = this.service.getModel();
-
     const schemaDescription = `
     {
       "problem": "technical summary",
@@ -49,7 +42,7 @@ ANALYSIS REQUIREMENTS:
 4. Generate high-signal search keywords for source code exploration.`;
 
     try {
-      const result = await this.service.invokeJSON<any>(model, prompt, schemaDescription);
+      const result = await this.provider.generateJSON<any>(prompt, schemaDescription);
       return {
         ...result,
         labels: issue.labels
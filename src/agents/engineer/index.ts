@@ -1,5 +1,7 @@
-import { GeminiService } from '../gemini';
-import { IssueAnalysis, CodeSnippet, CodeFix, FixFailure } from '../../types';
+import { CONTEXT_PRIORITY, ContextBuilder, createProvider, LLMProvider } from '../../llm';
+import { IssueAnalysis, CodeSnippet, ChangeSet, FileChange, AttemptRecord, ReproductionTest } from '../../types';
+import { normalizeChangeSet, describeChangeSet, renderHunks } from '../../tools/changes';
+import { isMentionedFile } from '../../tools/search/snippets';
 import { logger } from '../../utils/logger';
 import { z } from 'zod';
 
@@ -7,71 +9,80 @@ import { z } from 'zod';
  * Responsible for generating high-quality code fixes based on issue analysis and context.
  */
 export class EngineerAgent {
-  private service: GeminiService;
-
-  constructor(apiKey: string = process.env.GEMINI_API_KEY!) {
-    this.service = new GeminiService(apiKey);
-  }
+  constructor(private provider: LLMProvider = createProvider()) { }
 
   /**
-   * Generates a targeted code fix for the identified issue.
+   * Generates a targeted change set (one or more file edits, creates, deletes or renames)
+   * for the identified issue. `history` holds the earlier attempts of this run, so the
+   * engineer can learn from their review feedback and test failures.
    */
   async generateFix(
     issue: IssueAnalysis,
     snippets: CodeSnippet[],
     language: string,
-    previousFailures: FixFailure[] = []
-  ): Promise<CodeFix> {
+    history: AttemptRecord[] = [],
+    reproduction?: ReproductionTest
+  ): Promise<ChangeSet> {
     logger.info(`Engineering fix for issue: ${issue.problem.substring(0, 50)}...`);
-    const model = this.service.getModel();
 
     const schema = z.object({
-      file: z.string().describe("The absolute or relative path of the file to be modified"),
-      content: z.string().describe("The full content of the file after applying the fix"),
+      changes: z.array(z.object({
+        kind: z.enum(['edit', 'create', 'delete', 'rename']).describe("Type of change applied to the file"),
+        file: z.string().describe("Path of the file relative to the repository root (the source path for renames)"),
+        newFile: z.string().optional().describe("Destination path, only for renames"),
+        hunks: z.array(z.object({
+          search: z.string().describe("Exact consecutive lines copied from the current file, with enough context to be unique"),
+          replace: z.string().describe("The lines that replace the search block"),
+        })).optional().describe("Search/replace hunks, required for edit"),
+        content: z.string().optional().describe("Full file content; required for create, optional for rename, never used for edit"),
+      })).describe("Every file change required by the fix"),
       explanation: z.string().describe("A technical explanation of the fix and its impact"),
     });
 
-    const structuredModel = model.withStructuredOutput(schema as any);
+    const mentioned = snippets.filter(s => isMentionedFile(s.file, issue.mentionedFiles || []));
+    const context = ContextBuilder.for(this.provider, 'engineer')
+      .add({ name: 'issue', priority: CONTEXT_PRIORITY.issue, items: [issue.problem] })
+      .add({ name: 'reproduction', priority: CONTEXT_PRIORITY.issue, items: reproduction ? [this.renderReproduction(reproduction)] : [] })
+      .add({ name: 'mentioned', priority: CONTEXT_PRIORITY.mentionedFiles, items: mentioned.map(s => this.renderSnippet(s)) })
+      .add({ name: 'snippets', priority: CONTEXT_PRIORITY.snippets, items: snippets.filter(s => !mentioned.includes(s)).map(s => this.renderSnippet(s)) })
+      .add({ name: 'history', priority: CONTEXT_PRIORITY.history, items: history.map(entry => this.renderAttempt(entry)), keep: 'last' })
+      .build();
 
     const prompt = `System Role: Expert Software Engineer
 Task: Debug and patch the following issue within the provided code context.
 
 ISSUE SPECIFICATION:
-Summary: ${issue.problem}
+Summary: ${context.issue}
 Stack Environment: ${language}
 
 CODE CONTEXT:
-${snippets.map(s => `--- File: ${s.file} ---\n\`\`\`\n${s.content}\n\`\`\``).join('\n\n')}
+${[context.mentioned, context.snippets].filter(Boolean).join('\n\n')}
+
+${context.reproduction ? `${context.reproduction}
 
-${previousFailures.length > 0 ? `PREVIOUS ATTEMPTS (USE FOR LEARNING):
-${previousFailures.map(f => `[Attempt ${f.attempt}]
-Error: ${f.error}
-Diagnosis: ${f.diagnosis}`).join('\n\n')}` : ''}
+` : ''}${context.history ? `PREVIOUS ATTEMPTS (none of these were accepted; do not propose the same changes again):
+${context.history}` : ''}
 
 ENGINEERING REQUIREMENTS:
 1. Identify the exact line(s) causing the failure.
 2. Implement a robust fix that follows the project's existing coding patterns.
 3. Ensure no regressions or logic errors are introduced.
-4. Return the COMPLETE content of the modified file. DO NOT provide diffs or snippets.
-5. Provide a clear technical justification for the change.`;
+4. List every file that must change. Use "edit" for existing files, "create" for new files, "delete" to remove a file and "rename" to move one.
+5. For "edit", return search/replace hunks. Each "search" must be copied verbatim from the current file (same indentation) and be unique within it; keep hunks small and never rewrite or reformat lines unrelated to the fix.
+6. For "create", return the COMPLETE content of the new file.
+7. Provide a clear technical justification for the change.`;
 
     try {
-      const result = await structuredModel.invoke(prompt) as any;
-      return {
-        file: result.file,
-        content: result.content,
-      };
+      const result = await this.provider.generateStructured(schema, prompt);
+      return normalizeChangeSet(result as ChangeSet);
     } catch (error: any) {
-      logger.warn(`Primary model (gemini-2.5-flash) failed: ${error.message}. Falling back to gemini-2.5-pro...`);
+      const { defaultModel, fallbackModel } = this.provider;
+      logger.warn(`Primary model (${defaultModel}) failed: ${error.message}. Falling back to ${fallbackModel}...`);
       try {
-        const fallbackModel = this.service.getModel('gemini-2.5-pro').withStructuredOutput(schema as any);
-        const result = await fallbackModel.invoke(prompt) as any;
-        return {
-          file: result.file,
-          content: result.content,
-        };
+        const result = await this.provider.generateStructured(schema, prompt, { model: fallbackModel });
+        return normalizeChangeSet(result as ChangeSet);
       } catch (fallbackError: any) {
-        logger.error(`Fallback model (gemini-2.5-pro) also failed: ${fallbackError.message}.`);
+        logger.error(`Fallback model (${fallbackModel}) also failed: ${fallbackError.message}.`);
         throw new Error(`Failed to generate code fix autonomously: ${fallbackError.message}`);
       }
     }
@@ -80,9 +91,7 @@ ENGINEERING REQUIREMENTS:
   /**
    * Analyzes test failures to diagnose the root cause of a fix attempt's failure.
    */
-  async diagnoseFail(fix: CodeFix, testError: string): Promise<string> {
-    const model = this.service.getModel();
-
+  async diagnoseFail(fix: ChangeSet, testError: string): Promise<string> {
     const prompt = `Technical Audit: Analyze the following test failure against the implemented fix.
 
 TEST ERROR:
@@ -90,20 +99,63 @@ TEST ERROR:
 ${testError}
 \`\`\`
 
-IMPLEMENTED CODE:
-\`\`\`
-${fix.content.substring(0, 2000)} // Truncated for context
-\`\`\`
+IMPLEMENTED CHANGES:
+${fix.changes.map(c => `--- ${c.kind}: ${c.kind === 'rename' ? `${c.file} -> ${c.newFile}` : c.file} ---${this.renderChangeBody(c)}`).join('\n')}
+(Contents truncated to 2000 characters for context)
 
 REQUIREMENT:
 Provide a concise, technical diagnosis of why the fix failed and what architectural or logical adjustments are required. 
 Limit your response to 2 sentences of high-density technical information.`;
 
     try {
-      const response = await model.invoke(prompt);
-      return typeof response.content === 'string' ? response.content : JSON.stringify(response.content);
+      return await this.provider.generateText(prompt);
     } catch (error: any) {
       return `Diagnosis failed: ${error.message}`;
     }
   }
+
+  private renderSnippet(snippet: CodeSnippet): { text: string; summary: string } {
+    return {
+      text: `--- File: ${snippet.file} ---\n\`\`\`\n${snippet.content}\n\`\`\``,
+      summary: `${snippet.file}:${snippet.startLine}-${snippet.endLine}`,
+    };
+  }
+
+  private renderReproduction(reproduction: ReproductionTest): string {
+    return `FAILING REGRESSION TEST (${reproduction.file}, already in the repository):
+\`\`\`
+${reproduction.content}
+\`\`\`
+Current failure:
+\`\`\`
+${reproduction.failureOutput || ''}
+\`\`\`
+Your fix must make this test pass. Do not modify or delete the test.`;
+  }
+
+  private renderAttempt(entry: AttemptRecord): { text: string; summary: string } {
+    const lines = [`[Attempt ${entry.attempt}: ${entry.outcome}]`];
+    if (entry.fix?.changes.length) {
+      lines.push(`Changes: ${describeChangeSet(entry.fix)}`);
+      lines.push(...entry.fix.changes.map(c => `--- ${c.kind}: ${c.file} ---${this.renderChangeBody(c)}`));
+    }
+    if (entry.review && !entry.review.approved) {
+      lines.push(`Review rejected it (${entry.review.category}): ${entry.review.feedback}`);
+    }
+    if (entry.policyViolations?.length) {
+      lines.push(`Blocked by the change policy, nothing was applied:\n${entry.policyViolations.map(v => `- ${v}`).join('\n')}`);
+    }
+    if (entry.tests && !entry.tests.passed) {
+      lines.push(`Test failures:\n${entry.tests.summary}`);
+    }
+    if (entry.diagnosis) {
+      lines.push(`Diagnosis: ${entry.diagnosis}`);
+    }
+    return { text: lines.join('\n'), summary: `attempt ${entry.attempt} (${entry.outcome})` };
+  }
+
+  private renderChangeBody(change: FileChange): string {
+    const body = change.hunks ? renderHunks(change.hunks) : change.diff || change.content;
+    return body ? `\n\`\`\`\n${body.substring(0, 2000)}\n\`\`\`` : '';
+  }
 }
@@ -1,5 +1,6 @@
-import { GeminiService } from '../gemini';
-import { IssueAnalysis, CodeSnippet, CodeFix } from '../../types';
+import { CONTEXT_PRIORITY, ContextBuilder, createProvider, LLMProvider } from '../../llm';
+import { IssueAnalysis, CodeSnippet, ChangeSet, FileChange } from '../../types';
+import { describeChangeSet, renderHunks } from '../../tools/changes';
 import { logger } from '../../utils/logger';
 import { z } from 'zod';
 
@@ -13,51 +14,49 @@ export interface ReviewResult {
  * Conducts a technical peer review of generated fixes to ensure quality and safety.
  */
 export class ReviewerAgent {
-    private service: GeminiService;
-
-    constructor(apiKey: string = process.env.GEMINI_API_KEY!) {
-        this.service = new GeminiService(apiKey);
-    }
+    constructor(private provider: LLMProvider = createProvider()) { }
 
     /**
-     * Reviews a proposed code fix against the original problem and context.
+     * Reviews a proposed change set against the original problem and context.
+     * The change set is judged as a whole: approval applies to every file in it.
      */
     async review(
         issue: IssueAnalysis,
-        fix: CodeFix,
+        fix: ChangeSet,
         snippets: CodeSnippet[],
         language: string
     ): Promise<ReviewResult> {
-        logger.info(`Reviewing fix for ${fix.file}...`);
-        const model = this.service.getModel();
-
+        logger.info(`Reviewing change set: ${describeChangeSet(fix)}...`);
         const schema = z.object({
             approved: z.boolean().describe("True if the fix is technically sound, secure, and complete"),
             feedback: z.string().describe("Detailed architectural and logical feedback"),
             category: z.enum(['logic', 'syntax', 'style', 'security', 'ok']).describe("Primary classification of any identified issues")
         });
 
-        const structuredModel = model.withStructuredOutput(schema as any);
-
-        const originalCode = snippets.find(s => s.file === fix.file)?.content ||
-            "Target file content not available in current context.";
+        // The proposed changes are what is under review, so they are packed before the
+        // original source they replace
+        const builder = ContextBuilder.for(this.provider, 'reviewer')
+            .add({ name: 'issue', priority: CONTEXT_PRIORITY.issue, items: [issue.problem] });
+        fix.changes.forEach((change, i) => {
+            builder.add({ name: `change:${i}`, priority: CONTEXT_PRIORITY.issue, items: [this.formatProposal(change)] });
+            builder.add({
+                name: `original:${i}`,
+                priority: CONTEXT_PRIORITY.snippets,
+                items: snippets.filter(s => s.file === change.file).map(s => ({ text: s.content, summary: `${s.file}:${s.startLine}-${s.endLine}` })),
+                separator: '\n...\n',
+            });
+        });
+        const context = builder.build();
 
         const prompt = `System Requirement: Conduct a rigorous Peer Review of the following code modification.
 
 TECHNICAL CONTEXT:
-Issue: ${issue.problem}
+Issue: ${context.issue}
 Stack: ${language}
-File: ${fix.file}
-
-ORIGINAL SOURCE:
-\`\`\`
-${originalCode}
-\`\`\`
+Author's Explanation: ${fix.explanation || 'None provided'}
 
-PROPOSED MODIFICATION:
-\`\`\`
-${fix.content}
-\`\`\`
+PROPOSED CHANGE SET:
+${fix.changes.map((c, i) => this.formatChange(c, context[`change:${i}`], context[`original:${i}`])).join('\n\n')}
 
 REVIEW CRITERIA:
 1. LOGICAL INTEGRITY: Does the fix resolve the identified root cause?
@@ -65,14 +64,14 @@ REVIEW CRITERIA:
 3. SECURITY COMPLIANCE: Are there any vulnerability patterns (e.g. unsanitized input)?
 4. ARCHITECTURAL ALIGNMENT: Does the fix adhere to established project patterns?
 5. COMPLETENESS: Is the issue fully addressed or is this a superficial patch?
+6. CONSISTENCY: Do the file changes agree with each other (imports, renamed paths, removed symbols)?
 
 VERDICT GUIDELINES:
 - Approve ONLY if all criteria are met.
 - Provide high-density technical feedback for rejections.`;
 
         try {
-            const result = await structuredModel.invoke(prompt) as any as ReviewResult;
-            return result;
+            return await this.provider.generateStructured(schema, prompt);
         } catch (error: any) {
             logger.error(`Reviewer API failure: ${error.message}. Defaulting to manual verification requirement.`);
             return {
@@ -82,4 +81,27 @@ VERDICT GUIDELINES:
             };
         }
     }
+
+    private formatChange(change: FileChange, proposal: string, original: string): string {
+        const originalCode = original || "Target file content not available in current context.";
+
+        switch (change.kind) {
+            case 'create':
+                return `### CREATE ${change.file}\n\`\`\`\n${proposal}\n\`\`\``;
+            case 'delete':
+                return `### DELETE ${change.file}\nORIGINAL SOURCE:\n\`\`\`\n${originalCode}\n\`\`\``;
+            case 'rename':
+                return `### RENAME ${change.file} -> ${change.newFile}${change.content ? `\nNEW CONTENT:\n\`\`\`\n${proposal}\n\`\`\`` : ''}`;
+            default:
+                return `### EDIT ${change.file}\nORIGINAL SOURCE:\n\`\`\`\n${originalCode}\n\`\`\`\n\n${change.hunks || change.diff ? 'PROPOSED HUNKS' : 'PROPOSED MODIFICATION'}:\n\`\`\`\n${proposal}\n\`\`\``;
+        }
+    }
+
+    /**
+     * The new content of a change: its hunks, diff or full content.
+     */
+    private formatProposal(change: FileChange): string {
+        if (change.kind === 'delete') return '';
+        return (change.hunks ? renderHunks(change.hunks) : change.diff) || change.content || '';
+    }
 }
@@ -1,29 +1,28 @@
-import { GeminiService } from '../gemini';
+import { CONTEXT_PRIORITY, ContextBuilder, createProvider, LLMProvider } from '../../llm';
 import { IssueAnalysis, SearchQuery } from '../../types';
 import { logger } from '../../utils/logger';
 import { z } from 'zod';
 
 export class ScoutAgent {
-  private service: GeminiService;
-
-  constructor(apiKey: string = process.env.GEMINI_API_KEY!) {
-    this.service = new GeminiService(apiKey);
-  }
+  constructor(private provider: LLMProvider = createProvider()) { }
 
   async generateSearchQueries(issue: IssueAnalysis, language: string, projectMap?: string): Promise<SearchQuery[]> {
-    logger.info('Generating search queries with LangChain...');
-    const model = this.service.getModel();
+    logger.info(`Generating search queries with ${this.provider.name}...`);
 
     const schema = z.object({
       queries: z.array(z.object({
-        pattern: z.string().describe("Regex pattern to search for"),
+        kind: z.enum(['regex', 'definition', 'callers']).describe("regex: search file contents; definition: the full definition of a function, class or method; callers: the definitions that call it"),
+        pattern: z.string().describe("Regex pattern for regex queries; the symbol name (e.g. parseConfig or Parser.parse) otherwise"),
         fileType: z.string().describe("File extension filter (e.g., ts, py)"),
         contextLines: z.number().describe("Number of lines of context"),
         reason: z.string().describe("Why this query is relevant"),
       }))
     });
 
-    const structuredModel = model.withStructuredOutput(schema as any);
+    const context = ContextBuilder.for(this.provider, 'scout')
+      .add({ name: 'issue', priority: CONTEXT_PRIORITY.issue, items: [issue.problem] })
+      .add({ name: 'projectMap', priority: CONTEXT_PRIORITY.projectMap, items: projectMap ? [projectMap] : [] })
+      .build();
 
     const prompt = `You are a Codebase Scout. Your mission is to find the EXACT files causing the issue.
     
@@ -34,19 +33,20 @@ export class ScoutAgent {
 4. If it describes an API failure, look for Routes/Controllers/Models.
 
 Project Structure:
-${projectMap || 'Unknown'}
+${context.projectMap || 'Unknown'}
 
-Issue: ${issue.problem}
+Issue: ${context.issue}
 Keywords: ${issue.keywords.join(', ')}
 Mentioned Files: ${issue.mentionedFiles.join(', ') || 'None'}
 Language: ${language}
 
-Based on this, generate 3-5 surgical regex patterns. Be precise. Avoid searching for generic terms if a file path is obvious.`;
+Based on this, generate 3-5 surgical queries. Be precise. Avoid searching for generic terms if a file path is obvious.
+When you know the name of a function, class or method involved, prefer a "definition" query for it, and a "callers" query when the bug may lie in how it is used.`;
 
     try {
-      const result = await structuredModel.invoke(prompt) as any;
-      return result.queries as SearchQuery[];
-    } catch (e) {
+      const result = await this.provider.generateStructured(schema, prompt);
+      return result.queries;
+    } catch {
       logger.warn('API for search query generation failed, using fallback...');
       return this.generateFallbackQueries(issue, language);
     }
@@ -1,29 +1,59 @@
-import { ChatGoogleGenerativeAI } from '@langchain/google-genai';
-import { z } from 'zod';
 import fs from 'fs/promises';
 import { existsSync, readdirSync, statSync } from 'fs';
 import path from 'path';
-import { RepoFingerprint } from '../types';
+import { RepoFingerprint, Sandbox } from '../types';
 import { logger } from '../utils/logger';
-import { GeminiService } from './gemini';
+import { CONTEXT_PRIORITY, ContextBuilder, createProvider, LLMProvider } from '../llm';
+import { detectStack, missingTools, StackCandidate } from '../sandbox/fingerprint';
+import { detectWorkspace } from '../sandbox/workspace';
+
+const UNKNOWN_STACK: RepoFingerprint = {
+    language: "Unknown",
+    runtime: "ubuntu",
+    packageManager: "none",
+    installCommand: "true",
+    testCommand: "true"
+};
 
 export class StackDetectorAgent {
-    private service: GeminiService;
-    private model: ChatGoogleGenerativeAI;
+    constructor(private provider: LLMProvider = createProvider()) { }
 
-    constructor(apiKey: string) {
-        this.service = new GeminiService(apiKey);
-        this.model = this.service.getModel(); // Uses default gemini-2.5-flash
+    /**
+     * Detects the project's technology stack. Lockfile and manifest rules decide when they
+     * single out one stack; the model is only asked when they do not. With a sandbox, the
+     * chosen commands are checked against the tools installed there.
+     */
+    async detectStack(repoPath: string, sandbox?: Sandbox): Promise<RepoFingerprint> {
+        const detection = detectStack(repoPath);
+        let fingerprint: RepoFingerprint;
+        if (detection.ambiguous) {
+            logger.info(detection.candidates.length > 0
+                ? `Stack rules are ambiguous (${detection.candidates.length} candidates); asking the model to decide...`
+                : 'No known manifest found; asking the model to detect the stack...');
+            fingerprint = await this.askModel(repoPath, detection.candidates);
+            const workspace = detectWorkspace(repoPath, fingerprint.projectRoot || '', fingerprint.packageManager);
+            if (workspace) fingerprint = { ...fingerprint, workspace };
+        } else {
+            const [best] = detection.candidates;
+            logger.info(`Detected ${best.fingerprint.language} (${best.fingerprint.packageManager}) from ${best.evidence.join(', ')}`);
+            if (best.fingerprint.workspace) {
+                logger.info(`Workspace with ${best.fingerprint.workspace.packages.length} packages`);
+            }
+            fingerprint = best.fingerprint;
+        }
+
+        return sandbox ? this.validate(sandbox, fingerprint, detection.candidates) : fingerprint;
     }
 
     /**
-     * Detects the project's technology stack by analyzing the file structure and key configuration files.
+     * Lets the model pick among the rule-based candidates, or work the stack out from the
+     * file tree when there are none.
      */
-    async detectStack(repoPath: string): Promise<RepoFingerprint> {
+    private async askModel(repoPath: string, candidates: StackCandidate[]): Promise<RepoFingerprint> {
         const fileTree = await this.generateFileTree(repoPath);
 
         // Read contents of key files for deep analysis
-        const configFiles = ['package.json', 'go.mod', 'requirements.txt', 'pyproject.toml', 'manage.py', 'Cargo.toml', 'Gemfile'];
+        const configFiles = ['package.json', 'go.mod', 'requirements.txt', 'pyproject.toml', 'manage.py', 'Cargo.toml', 'Gemfile', 'composer.json', 'mix.exs', 'Makefile', 'tox.ini'];
         const configContents: Record<string, string> = {};
 
         for (const file of configFiles) {
@@ -49,18 +79,35 @@ export class StackDetectorAgent {
           "projectRoot": "string"
         }`;
 
+        // Manifests name the stack outright; the tree only hints at it
+        const context = ContextBuilder.for(this.provider, 'stack detector')
+            .add({
+                name: 'configs',
+                priority: CONTEXT_PRIORITY.mentionedFiles,
+                items: Object.entries(configContents).map(([f, c]) => ({ text: `--- ${f} ---\n${c}`, summary: f })),
+            })
+            .add({ name: 'fileTree', priority: CONTEXT_PRIORITY.projectMap, items: fileTree, separator: '\n' })
+            .build();
+
+        const candidateList = candidates
+            .map((c, i) => `${i + 1}. ${JSON.stringify(c.fingerprint)} (from ${c.evidence.join(', ') || 'defaults'}; test command ${c.confidence === 'high' ? 'configured' : 'guessed'})`)
+            .join('\n');
+
         const prompt = `You are a Senior Systems Architect auditing a repository to prepare an automated development environment.
         
 Analyze the following file tree and configuration file previews to determine the exact project stack.
 
 FILE TREE:
-${fileTree.join('\n')}
+${context.fileTree}
 
 CONFIGURATION PREVIEWS:
-${Object.entries(configContents).map(([f, c]) => `--- ${f} ---\n${c}`).join('\n\n')}
-
+${context.configs}
+${candidateList ? `
+CANDIDATES FROM LOCKFILES AND MANIFESTS:
+${candidateList}
+` : ''}
 INSTRUCTIONS:
-1. Identify the primary programming language.
+1. Identify the primary programming language.${candidateList ? ' If one of the candidates fits, return it, correcting its commands only where the configuration shows they are wrong.' : ''}
 2. Determine the best runtime environment for an Ubuntu-based sandbox.
 3. Identify the "projectRoot" - this is the directory containing the source code and dependency manifests (e.g., package.json, go.mod). If it's a monorepo and the code is in a sub-directory (like 'backend/'), provide that path. If it's in the root, leave it empty or use "".
 4. Provide the exact commands needed to install dependencies and run tests. These commands will be executed starting from the "projectRoot".
@@ -69,57 +116,36 @@ INSTRUCTIONS:
 Ensure the commands provided are robust and assume a fresh environment.`;
 
         try {
-            const result = await this.service.invokeJSON<RepoFingerprint>(this.model, prompt, schemaDescription);
+            const result = await this.provider.generateJSON<RepoFingerprint>(prompt, schemaDescription);
             return result;
         } catch (error: any) {
-            logger.error(`AI stack detection failed: ${error.message}. Executing fallback heuristics...`);
-            return this.heuristicFallback(fileTree);
+            logger.error(`AI stack detection failed: ${error.message}. Using the best rule-based candidate...`);
+            return candidates[0]?.fingerprint ?? UNKNOWN_STACK;
         }
     }
 
     /**
-     * Fallback logic using simple heuristics when AI analysis is unavailable.
+     * Keeps `fingerprint` if the sandbox has the tools its commands run. Otherwise switches to
+     * the first candidate whose tools are all there, installing its dependencies.
      */
-    private heuristicFallback(fileTree: string[]): RepoFingerprint {
-        const treeStr = fileTree.join(' ');
-
-        if (treeStr.includes('requirements.txt') || treeStr.includes('pyproject.toml')) {
-            return {
-                language: "Python",
-                runtime: "python",
-                packageManager: "pip",
-                installCommand: "pip install -r requirements.txt",
-                testCommand: "pytest"
-            };
-        }
-
-        if (treeStr.includes('package.json')) {
-            return {
-                language: "TypeScript/JavaScript",
-                runtime: "node",
-                packageManager: "npm",
-                installCommand: "npm install",
-                testCommand: "npm test"
-            };
-        }
-
-        if (treeStr.includes('go.mod')) {
-            return {
-                language: "Go",
-                runtime: "go",
-                packageManager: "go mod",
-                installCommand: "go mod download",
-                testCommand: "go test ./..."
-            };
+    private async validate(sandbox: Sandbox, fingerprint: RepoFingerprint, candidates: StackCandidate[]): Promise<RepoFingerprint> {
+        const missing = await missingTools(sandbox, fingerprint);
+        if (missing.length === 0) return fingerprint;
+
+        for (const { fingerprint: candidate } of candidates) {
+            if (candidate.installCommand === fingerprint.installCommand && candidate.testCommand === fingerprint.testCommand) continue;
+            if ((await missingTools(sandbox, candidate)).length > 0) continue;
+
+            logger.warn(`${missing.join(', ')} not available in the sandbox; using ${candidate.packageManager} instead`);
+            const install = await sandbox.runCommand(candidate.installCommand);
+            if (install.exitCode !== 0) {
+                logger.warn(`Dependency installation with ${candidate.packageManager} failed (exit code ${install.exitCode})`);
+            }
+            return candidate;
         }
 
-        return {
-            language: "Unknown",
-            runtime: "ubuntu",
-            packageManager: "none",
-            installCommand: "true",
-            testCommand: "true"
-        };
+        logger.warn(`Tools not found in the sandbox: ${missing.join(', ')}. Installing and testing may fail.`);
+        return fingerprint;
     }
 
     /**
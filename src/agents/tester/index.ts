@@ -0,0 +1,84 @@
+import { CONTEXT_PRIORITY, ContextBuilder, createProvider, LLMProvider } from '../../llm';
+import { IssueAnalysis, CodeSnippet, RepoFingerprint, ReproductionTest } from '../../types';
+import { logger } from '../../utils/logger';
+import { normalizePath } from '../../tools/changes';
+import { isMentionedFile } from '../../tools/search/snippets';
+import { z } from 'zod';
+
+/**
+ * Writes regression tests that reproduce an issue before any fix is attempted.
+ */
+export class TesterAgent {
+  constructor(private provider: LLMProvider = createProvider()) { }
+
+  /**
+   * Generates a new test file that fails on the current code because of the issue and
+   * passes once it is fixed. `feedback` explains why a previous attempt was rejected.
+   */
+  async writeReproduction(
+    issue: IssueAnalysis,
+    snippets: CodeSnippet[],
+    fingerprint: RepoFingerprint,
+    projectMap?: string,
+    feedback?: string
+  ): Promise<ReproductionTest> {
+    logger.info(`Writing a regression test for: ${issue.problem.substring(0, 50)}...`);
+
+    const schema = z.object({
+      file: z.string().describe("Path of the NEW test file, relative to the repository root"),
+      content: z.string().describe("Complete content of the test file"),
+      command: z.string().describe("Shell command that runs only this test file"),
+      explanation: z.string().describe("What the test asserts and why it fails on the current code"),
+    });
+
+    const mentioned = snippets.filter(s => isMentionedFile(s.file, issue.mentionedFiles || []));
+    const context = ContextBuilder.for(this.provider, 'tester')
+      .add({ name: 'issue', priority: CONTEXT_PRIORITY.issue, items: [`Summary: ${issue.problem}\nExpected: ${issue.expected}\nActual: ${issue.actual}`] })
+      .add({ name: 'feedback', priority: CONTEXT_PRIORITY.issue, items: feedback ? [feedback] : [] })
+      .add({ name: 'mentioned', priority: CONTEXT_PRIORITY.mentionedFiles, items: mentioned.map(s => this.renderSnippet(s)) })
+      .add({ name: 'snippets', priority: CONTEXT_PRIORITY.snippets, items: snippets.filter(s => !mentioned.includes(s)).map(s => this.renderSnippet(s)) })
+      .add({ name: 'projectMap', priority: CONTEXT_PRIORITY.projectMap, items: projectMap ? [projectMap] : [] })
+      .build();
+
+    const prompt = `System Role: Test Engineer
+Task: Write a regression test that reproduces the following issue BEFORE it is fixed.
+
+ISSUE SPECIFICATION:
+${context.issue}
+Mentioned Files: ${issue.mentionedFiles.join(', ') || 'None'}
+
+STACK:
+Language: ${fingerprint.language}
+Full test suite command: ${fingerprint.testCommand}
+${fingerprint.projectRoot ? `Commands run from the project directory: ${fingerprint.projectRoot}` : 'Commands run from the repository root.'}
+${fingerprint.workspace ? `Workspace packages (put the test in the package that owns the code):\n${fingerprint.workspace.packages.map(p => `- ${p.name} in ${p.path || '.'}${p.testCommand ? `, tests: ${p.testCommand}` : ''}`).join('\n')}\n` : ''}
+Project Structure:
+${context.projectMap || 'Unknown'}
+
+CODE CONTEXT:
+${[context.mentioned, context.snippets].filter(Boolean).join('\n\n') || 'None'}
+
+${context.feedback ? `PREVIOUS ATTEMPT WAS REJECTED:\n${context.feedback}\n` : ''}
+TEST REQUIREMENTS:
+1. Create a NEW file; never overwrite an existing test. Place it where the project keeps its tests and follow their naming so the full suite picks it up.
+2. Use the test framework and assertion style the project already uses.
+3. Assert the expected behaviour from the issue, so the test FAILS on the current code and PASSES once the issue is fixed.
+4. Keep it minimal: one focused test case, no unrelated assertions, no network access.
+5. "command" must run only this test file and exit non-zero when it fails.`;
+
+    const result = await this.provider.generateStructured(schema, prompt) as ReproductionTest;
+    // The file is written into the sandbox and later committed, so it must stay inside the repository
+    const file = normalizePath(result.file);
+    if (!result.command.trim()) {
+      throw new Error(`The regression test ${file} comes without a command to run it.`);
+    }
+    return { ...result, file, command: result.command.trim() };
+  }
+
+  private renderSnippet(snippet: CodeSnippet): { text: string; summary: string } {
+    return {
+      text: `--- File: ${snippet.file} ---\n\`\`\`\n${snippet.content}\n\`\`\``,
+      summary: `${snippet.file}:${snippet.startLine}-${snippet.endLine}`,
+    };
+  }
+}
@@ -0,0 +1,97 @@
+import chalk from 'chalk';
+import { resolveBatchIssues, runBatch, BatchItemResult } from '../../orchestrator/batch';
+import { LLMProviderName, SandboxBackend } from '../../types';
+import { config } from '../../utils/config';
+import { formatTable } from '../format';
+import { parseCost, parseCount } from '../options';
+
+export async function batchCommand(options: {
+  file?: string;
+  repo?: string;
+  label?: string[];
+  limit?: string;
+  concurrency?: string;
+  dryRun?: boolean;
+  maxAttempts?: string;
+  provider?: LLMProviderName;
+  model?: string;
+  maxCost?: string;
+  sandbox?: SandboxBackend;
+  draft?: boolean;
+  maintainerEdits?: boolean;
+}): Promise<void> {
+  try {
+    if (Boolean(options.file) === Boolean(options.repo)) {
+      throw new Error('Pass either --file <path> or --repo <owner/repo>.');
+    }
+    // Checked before any issue is fetched, so a typo does not cost a GitHub search
+    const limit = options.limit ? parseCount(options.limit, '--limit') : undefined;
+    const concurrency = parseCount(options.concurrency || '3', '--concurrency');
+    const maxAttempts = options.maxAttempts ? parseCount(options.maxAttempts, '--max-attempts') : undefined;
+    const maxCost = options.maxCost ? parseCost(options.maxCost) : undefined;
+
+    const issueUrls = await resolveBatchIssues({
+      file: options.file,
+      repo: options.repo,
+      labels: options.label,
+      limit,
+    });
+    if (issueUrls.length === 0) {
+      console.log('No issues to fix.');
+      return;
+    }
+
+    console.log(chalk.bold(`Fixing ${issueUrls.length} issues, ${concurrency} at a time\n`));
+
+    let done = 0;
+    const results = await runBatch(
+      issueUrls,
+      {
+        dryRun: options.dryRun || false,
+        maxAttempts,
+        verbose: false,
+        useLocal: false,
+        llm: options.provider || options.model
+          ? { provider: options.provider || config.llmProvider, model: options.model }
+          : undefined,
+        maxCost,
+        sandbox: options.sandbox,
+        draft: options.draft || false,
+        allowMaintainerEdits: options.maintainerEdits !== false,
+      },
+      concurrency,
+      result => {
+        done++;
+        const status = result.status === 'success' ? chalk.green(result.status) : chalk.red(result.status);
+        console.log(`[${done}/${issueUrls.length}] ${result.issueUrl}: ${status}`);
+      }
+    );
+
+    console.log(`\n${formatBatchResults(results)}`);
+    if (results.some(result => result.status !== 'success')) {
+      process.exit(1);
+    }
+  } catch (error: any) {
+    console.error(chalk.red(error.message));
+    process.exit(1);
+  }
+}
+
+function formatBatchResults(results: BatchItemResult[]): string {
+  const table = formatTable(
+    ['Issue', 'Status', 'PR', 'Attempts', 'Duration', 'Cost', 'Run'],
+    results.map(result => [
+      result.issueUrl.replace('https://github.com/', ''),
+      result.status,
+      result.prUrl || (result.error ? result.error.slice(0, 60) : '-'),
+      String(result.attempts),
+      `${result.duration}s`,
+      `$${result.cost.toFixed(4)}`,
+      result.runId,
+    ])
+  );
+
+  const succeeded = results.filter(result => result.status === 'success').length;
+  const cost = results.reduce((sum, result) => sum + result.cost, 0);
+  return `${table}\n\n${succeeded}/${results.length} fixed, total cost $${cost.toFixed(4)}`;
+}
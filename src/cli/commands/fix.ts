@@ -1,10 +1,28 @@
-import ora from 'ora';
+import ora, { Ora } from 'ora';
 import chalk from 'chalk';
 import { runFixWorkflow } from '../../orchestrator/workflow';
+import { LLMProviderName, SandboxBackend, WorkflowResult } from '../../types';
+import { config } from '../../utils/config';
+import { Cassette, setActiveCassette } from '../../utils/cassette';
+import { formatCostBreakdown } from '../format';
+import { parseCost, parseCount } from '../options';
 
 export async function fixCommand(
   issueUrl: string,
-  options: { dryRun?: boolean; maxAttempts?: string; verbose?: boolean; local?: boolean }
+  options: {
+    dryRun?: boolean;
+    maxAttempts?: string;
+    verbose?: boolean;
+    local?: boolean;
+    provider?: LLMProviderName;
+    model?: string;
+    record?: string;
+    replay?: string;
+    maxCost?: string;
+    sandbox?: SandboxBackend;
+    draft?: boolean;
+    maintainerEdits?: boolean;
+  }
 ): Promise<void> {
   const spinner = ora('Initializing...').start();
 
@@ -14,24 +32,61 @@ export async function fixCommand(
       process.exit(1);
     }
 
+    if (options.record || options.replay) {
+      setActiveCassette(options.replay ? new Cassette(options.replay, 'replay') : new Cassette(options.record!, 'record'));
+    }
+
     const result = await runFixWorkflow(issueUrl, {
       dryRun: options.dryRun || false,
-      maxAttempts: parseInt(options.maxAttempts || '5'),
+      maxAttempts: options.maxAttempts ? parseCount(options.maxAttempts, '--max-attempts') : undefined,
       verbose: options.verbose || false,
       useLocal: options.local || false,
+      llm: options.provider || options.model
+        ? { provider: options.provider || config.llmProvider, model: options.model }
+        : undefined,
+      maxCost: options.maxCost ? parseCost(options.maxCost) : undefined,
+      sandbox: options.sandbox,
+      draft: options.draft || false,
+      allowMaintainerEdits: options.maintainerEdits !== false,
     });
 
-    if (result.status === 'success') {
-      spinner.succeed(chalk.green('Issue fixed!'));
-      console.log(chalk.blue(`\n🎉 PR: ${result.prUrl}`));
-    } else {
-      spinner.fail(chalk.red('Failed'));
-      console.error(chalk.red(`Error: ${result.error}`));
-      process.exit(1);
-    }
+    reportResult(spinner, result);
   } catch (error: any) {
     spinner.fail('Unexpected error');
     console.error(chalk.red(error.message));
     process.exit(1);
   }
 }
+
+/**
+ * Prints the outcome and cost breakdown of a run and exits non-zero unless it succeeded.
+ */
+export function reportResult(spinner: Ora, result: WorkflowResult): void {
+  if (result.status === 'success') {
+    spinner.succeed(chalk.green('Issue fixed!'));
+    console.log(chalk.blue(`\n🎉 PR: ${result.prUrl}`));
+    console.log(`\n${formatCostBreakdown(result.usage)}`);
+    return;
+  }
+
+  if (result.status === 'budget_exceeded') {
+    spinner.fail(chalk.yellow('Stopped: cost budget exceeded'));
+    console.error(chalk.yellow(result.error));
+  } else {
+    spinner.fail(chalk.red('Failed'));
+    console.error(chalk.red(`Error: ${result.error}`));
+    if (result.failingTests?.length) {
+      console.error(chalk.red(`\nStill failing after attempt ${result.attempts}:`));
+      for (const test of result.failingTests.slice(0, 10)) {
+        const message = test.message?.split('\n')[0];
+        console.error(chalk.red(`  ✕ ${test.name}`) + (message ? chalk.gray(` — ${message}`) : ''));
+      }
+      if (result.failingTests.length > 10) {
+        console.error(chalk.gray(`  ... and ${result.failingTests.length - 10} more`));
+      }
+    }
+  }
+  console.log(`\n${formatCostBreakdown(result.usage)}`);
+  console.log(chalk.gray(`\nResume with: oss-dev resume ${result.runId}`));
+  process.exit(1);
+}
@@ -0,0 +1,31 @@
+import chalk from 'chalk';
+import { ProjectMapper } from '../../tools/search/mapper';
+
+export async function mapCommand(
+  repoPath: string = '.',
+  options: {
+    json?: boolean;
+    outline?: boolean;
+    ignore?: string[];
+    maxEntries?: string;
+    maxDepth?: string;
+  }
+): Promise<void> {
+  try {
+    const mapper = new ProjectMapper({
+      outline: options.outline,
+      ignore: options.ignore,
+      ...(options.maxEntries ? { maxEntries: parseInt(options.maxEntries, 10) } : {}),
+      ...(options.maxDepth ? { maxDepth: parseInt(options.maxDepth, 10) } : {}),
+    });
+
+    if (options.json) {
+      console.log(JSON.stringify(await mapper.build(repoPath), null, 2));
+    } else {
+      console.log(await mapper.getMap(repoPath));
+    }
+  } catch (error: any) {
+    console.error(chalk.red(error.message));
+    process.exit(1);
+  }
+}
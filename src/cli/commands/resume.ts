@@ -0,0 +1,32 @@
+import ora from 'ora';
+import chalk from 'chalk';
+import { resumeFixWorkflow } from '../../orchestrator/workflow';
+import { loadRunRecord } from '../../orchestrator/runs';
+import { validateConfig } from '../../utils/config';
+import { reportResult } from './fix';
+import { parseCost } from '../options';
+
+export async function resumeCommand(
+  runId: string,
+  options: {
+    maxCost?: string;
+  }
+): Promise<void> {
+  const spinner = ora(`Resuming run ${runId}...`).start();
+
+  try {
+    // Credentials are checked against the provider and sandbox the run was started with
+    const record = loadRunRecord(runId);
+    validateConfig({ provider: record.options.llm?.provider, sandbox: record.options.sandbox });
+
+    const result = await resumeFixWorkflow(runId, {
+      ...(options.maxCost ? { maxCost: parseCost(options.maxCost) } : {}),
+    });
+
+    reportResult(spinner, result);
+  } catch (error: any) {
+    spinner.fail('Unexpected error');
+    console.error(chalk.red(error.message));
+    process.exit(1);
+  }
+}
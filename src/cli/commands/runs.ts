@@ -0,0 +1,107 @@
+import chalk from 'chalk';
+import { listRuns, loadRunRecord, tracePath } from '../../orchestrator/runs';
+import { UsageTracker } from '../../llm';
+import { readTrace, TraceEvent } from '../../utils/trace';
+import { formatCostBreakdown, formatTable } from '../format';
+
+export async function runsListCommand(): Promise<void> {
+  const runs = listRuns();
+  if (runs.length === 0) {
+    console.log('No runs recorded yet.');
+    return;
+  }
+
+  console.log(formatTable(
+    ['Run', 'Started', 'Status', 'Last step', 'Cost', 'Issue'],
+    runs.map(run => [
+      run.runId,
+      run.createdAt.replace('T', ' ').slice(0, 19),
+      run.status,
+      run.lastNode || '-',
+      `$${new UsageTracker(run.usage).summary().cost.toFixed(4)}`,
+      run.issueUrl,
+    ])
+  ));
+}
+
+export async function runsShowCommand(runId: string, step: string | undefined, options: { node?: string }): Promise<void> {
+  try {
+    const run = loadRunRecord(runId);
+    const events = readTrace(tracePath(runId));
+
+    if (step !== undefined) {
+      const event = events[parseInt(step, 10) - 1];
+      if (!event) {
+        throw new Error(`Run ${runId} has no step ${step} (${events.length} recorded).`);
+      }
+      console.log(formatEventDetails(event));
+      return;
+    }
+
+    console.log(chalk.bold(`Run ${run.runId}`) + ` — ${run.status}`);
+    console.log(`Issue:   ${run.issueUrl}`);
+    console.log(`Started: ${run.createdAt}`);
+    if (run.prUrl) console.log(`PR:      ${run.prUrl}`);
+    if (run.error) console.log(`Error:   ${run.error}`);
+    console.log();
+
+    const rows = events
+      .map((event, index) => ({ event, index }))
+      .filter(({ event }) => !options.node || event.node === options.node)
+      .map(({ event, index }) => [
+        String(index + 1),
+        event.timestamp.slice(11, 19),
+        event.node || '-',
+        event.attempt ? String(event.attempt) : '-',
+        event.type,
+        summarizeEvent(event),
+      ]);
+    console.log(rows.length > 0 ? formatTable(['#', 'Time', 'Node', 'Try', 'Event', 'Summary'], rows) : 'No trace events recorded.');
+    console.log(`\n${formatCostBreakdown(run.usage)}`);
+    console.log(chalk.gray(`\nDetails of a step: oss-dev runs show ${runId} <#>`));
+  } catch (error: any) {
+    console.error(chalk.red(error.message));
+    process.exit(1);
+  }
+}
+
+function summarizeEvent(event: TraceEvent): string {
+  switch (event.type) {
+    case 'node_start': {
+      const changed = Object.keys((event.input as Record<string, unknown>) || {});
+      return changed.length > 0 ? `changed: ${changed.join(', ')}` : 'no state changes';
+    }
+    case 'node_end':
+      return `${Object.keys((event.output as Record<string, unknown>) || {}).join(', ') || 'no output'} (${event.durationMs}ms)`;
+    case 'node_error':
+      return `${event.error} (${event.durationMs}ms)`;
+    case 'prompt':
+      return `${event.provider}/${event.model} ${event.kind}, ${String(event.prompt).length} chars`;
+    case 'response': {
+      const usage = event.usage as { promptTokens: number; completionTokens: number } | undefined;
+      const tokens = usage ? `${usage.promptTokens}+${usage.completionTokens} tokens` : 'no usage reported';
+      return `${tokens} (${event.durationMs}ms)`;
+    }
+    case 'search':
+      return `"${event.pattern}" → ${event.hits} hits${event.error ? ` (${event.error})` : ''} (${event.durationMs}ms)`;
+    case 'test':
+      return `${event.command}: exit ${event.exitCode}${event.durationMs !== undefined ? ` (${event.durationMs}ms)` : ''}`;
+    default:
+      return '';
+  }
+}
+
+/**
+ * Prints every field of an event; multi-line strings such as prompts are shown verbatim.
+ */
+function formatEventDetails(event: TraceEvent): string {
+  return Object.entries(event)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => {
+      if (typeof value === 'string') {
+        return value.includes('\n') ? `${chalk.bold(key)}:\n${value}` : `${chalk.bold(key)}: ${value}`;
+      }
+      return `${chalk.bold(key)}: ${JSON.stringify(value, null, 2)}`;
+    })
+    .join('\n');
+}
@@ -0,0 +1,42 @@
+import chalk from 'chalk';
+import { UsageTracker } from '../llm';
+import { UsageEntry } from '../types';
+
+/**
+ * Renders rows as a fixed-width text table with a header line.
+ */
+export function formatTable(headers: string[], rows: string[][]): string {
+  const widths = headers.map((h, i) => Math.max(h.length, ...rows.map(r => (r[i] || '').length)));
+  const line = (cells: string[]) => cells.map((c, i) => (c || '').padEnd(widths[i])).join('  ').trimEnd();
+  return [chalk.bold(line(headers)), ...rows.map(line)].join('\n');
+}
+
+/**
+ * Cost breakdown of a run by graph node and by fix attempt.
+ */
+export function formatCostBreakdown(entries: UsageEntry[]): string {
+  const tracker = new UsageTracker(entries);
+  const total = tracker.summary();
+  if (entries.length === 0) {
+    return 'No model usage recorded.';
+  }
+
+  const toRow = ({ label, usage }: { label: string; usage: typeof total }) => [
+    label,
+    usage.promptTokens.toLocaleString(),
+    usage.completionTokens.toLocaleString(),
+    `$${usage.cost.toFixed(4)}`,
+  ];
+  const headers = ['', 'Input tokens', 'Output tokens', 'Cost'];
+
+  const byNode = tracker.groupBy(e => e.node || 'other');
+  const byAttempt = tracker.groupBy(e => (e.attempt ? `attempt ${e.attempt}` : 'setup'));
+
+  return [
+    formatTable(['Step', ...headers.slice(1)], byNode.map(toRow)),
+    '',
+    formatTable(['Attempt', ...headers.slice(1)], byAttempt.map(toRow)),
+    '',
+    `Total: ${total.totalTokens.toLocaleString()} tokens, $${total.cost.toFixed(4)}`,
+  ].join('\n');
+}
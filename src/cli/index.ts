@@ -3,7 +3,14 @@ import 'dotenv/config';
 import { Command } from 'commander';
 import chalk from 'chalk';
 import { fixCommand } from './commands/fix';
+import { resumeCommand } from './commands/resume';
+import { batchCommand } from './commands/batch';
+import { runsListCommand, runsShowCommand } from './commands/runs';
+import { mapCommand } from './commands/map';
 import { validateConfig } from '../utils/config';
+import { loadRepoConfig } from '../utils/repo-config';
+import { LLM_PROVIDERS } from '../llm';
+import { SANDBOX_BACKENDS } from '../sandbox';
 
 const program = new Command();
 
@@ -16,13 +23,80 @@ program
   .command('fix <issue-url>')
   .description('Fix a GitHub issue autonomously')
   .option('--dry-run', 'Analyze only, no PR')
-  .option('--max-attempts <n>', 'Max fix attempts', '5')
+  .option('--max-attempts <n>', 'Max fix attempts (default: maxAttempts in .oss-dev.yml, or 5)')
   .option('--verbose', 'Detailed logs')
   .option('--local', 'Use local repository instead of cloning')
+  .option('--provider <name>', `LLM provider (${LLM_PROVIDERS.join(', ')})`)
+  .option('--model <name>', 'Model to use with the selected provider')
+  .option('--record <cassette>', 'Record every model and GitHub exchange to a cassette file')
+  .option('--replay <cassette>', 'Replay model and GitHub exchanges from a cassette file (offline)')
+  .option('--sandbox <backend>', `Where tests run (${SANDBOX_BACKENDS.join(', ')}; default: OSS_DEV_SANDBOX or e2b)`)
+  .option('--max-cost <usd>', 'Stop the run once model spend exceeds this amount (default: OSS_DEV_MAX_COST)')
+  .option('--draft', 'Open the pull request as a draft')
+  .option('--no-maintainer-edits', 'Do not let maintainers push to the fix branch when it is in a fork')
   .action(fixCommand);
 
+const collect = (value: string, previous: string[] = []) => previous.concat(value);
+
+program
+  .command('batch')
+  .description('Fix many issues concurrently')
+  .option('--file <path>', 'File with one issue URL per line')
+  .option('--repo <owner/repo>', 'Fix open issues of this repository')
+  .option('--label <name>', 'With --repo, only issues with this label (repeatable)', collect)
+  .option('--limit <n>', 'With --repo, maximum number of issues', '20')
+  .option('--concurrency <n>', 'Runs in flight at once', '3')
+  .option('--dry-run', 'Analyze only, no PRs')
+  .option('--max-attempts <n>', 'Max fix attempts per issue (default: maxAttempts in .oss-dev.yml, or 5)')
+  .option('--provider <name>', `LLM provider (${LLM_PROVIDERS.join(', ')})`)
+  .option('--model <name>', 'Model to use with the selected provider')
+  .option('--sandbox <backend>', `Where tests run (${SANDBOX_BACKENDS.join(', ')}; default: OSS_DEV_SANDBOX or e2b)`)
+  .option('--max-cost <usd>', 'Cost budget per issue (default: OSS_DEV_MAX_COST)')
+  .option('--draft', 'Open the pull requests as drafts')
+  .option('--no-maintainer-edits', 'Do not let maintainers push to fix branches in forks')
+  .action(batchCommand);
+
+program
+  .command('resume <run-id>')
+  .description('Continue an interrupted run from its last checkpoint')
+  .option('--max-cost <usd>', 'Raise or lower the cost budget for the rest of the run')
+  .action(resumeCommand);
+
+const runs = program
+  .command('runs')
+  .description('Inspect recorded runs');
+
+runs
+  .command('list')
+  .description('List past runs, newest first')
+  .action(runsListCommand);
+
+runs
+  .command('show <run-id> [step]')
+  .description('Show the trace of a run, or every detail of one step')
+  .option('--node <name>', 'Only show events of this graph node')
+  .action(runsShowCommand);
+
+program
+  .command('map [path]')
+  .description('Print the project map the agents see for a repository (default: current directory)')
+  .option('--json', 'Print the map as JSON')
+  .option('--outline', "List each file's top-level exported symbols")
+  .option('--ignore <pattern>', 'Extra gitignore-style pattern to leave out (repeatable)', collect)
+  .option('--max-entries <n>', 'Files and directories listed before the rest is collapsed', '200')
+  .option('--max-depth <n>', 'Directories nested deeper than this are collapsed', '4')
+  .action(mapCommand);
+
+program.hook('preAction', (_program, actionCommand) => {
+  // `resume` validates against the options the run was started with
+  if (!['fix', 'batch'].includes(actionCommand.name())) return;
+  const opts = actionCommand.opts();
+  validateConfig({ provider: opts.provider, sandbox: opts.sandbox, offline: Boolean(opts.replay) });
+  // Repositories that are cloned have their .oss-dev.yml checked once they are
+  loadRepoConfig(opts.local ? process.cwd() : undefined);
+});
+
 try {
-  validateConfig();
   program.parse();
 } catch (error: any) {
   console.error(chalk.red(error.message));
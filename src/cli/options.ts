@@ -0,0 +1,23 @@
+/**
+ * Parses a flag that counts something, such as `--concurrency` or `--limit`. Commander hands
+ * options over as strings, and `parseInt` would turn a typo into NaN without complaint.
+ */
+export function parseCount(value: string, flag: string): number {
+  const count = Number(value);
+  if (!Number.isInteger(count) || count < 1) {
+    throw new Error(`${flag} must be a positive whole number, got "${value}".`);
+  }
+  return count;
+}
+
+/**
+ * Parses a `--max-cost` budget in USD. A value that is not a number would otherwise turn the
+ * budget check off instead of stopping the run.
+ */
+export function parseCost(value: string, flag = '--max-cost'): number {
+  const cost = Number(value);
+  if (value.trim() === '' || !Number.isFinite(cost) || cost < 0) {
+    throw new Error(`${flag} must be an amount in USD of zero or more, got "${value}".`);
+  }
+  return cost;
+}
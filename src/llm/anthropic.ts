@@ -0,0 +1,27 @@
+import { ChatAnthropic } from '@langchain/anthropic';
+import { BaseLLMProvider } from './provider';
+
+/**
+ * Anthropic Claude models through the Messages API.
+ */
+export class AnthropicProvider extends BaseLLMProvider {
+  readonly name = 'anthropic' as const;
+  readonly defaultModel: string;
+  readonly fallbackModel = 'claude-sonnet-4-20250514';
+
+  constructor(private apiKey: string, model?: string) {
+    super();
+    this.defaultModel = model || 'claude-3-5-haiku-latest';
+  }
+
+  protected buildModel(model: string, temperature: number) {
+    return new ChatAnthropic({
+      apiKey: this.apiKey,
+      model,
+      temperature,
+      maxRetries: 3,
+      // Full-file creates and multi-hunk change sets exceed the SDK's 2048 token default
+      maxTokens: 8192,
+    });
+  }
+}
@@ -0,0 +1,170 @@
+import { config } from '../utils/config';
+import { logger } from '../utils/logger';
+import { trace } from '../utils/trace';
+import type { LLMProvider } from './provider';
+import { countTokens, ModelLimits } from './tokens';
+
+/**
+ * Packing order of prompt content: what the model can least do without comes first.
+ */
+export const CONTEXT_PRIORITY = {
+  issue: 0,
+  mentionedFiles: 1,
+  snippets: 2,
+  projectMap: 3,
+  history: 4,
+} as const;
+
+export interface ContextItem {
+  text: string;
+  /** Shown in place of the text when the item does not fit, e.g. a file path and line range. */
+  summary?: string;
+}
+
+export interface ContextSection {
+  name: string;
+  /** Sections with lower numbers are packed first; see `CONTEXT_PRIORITY`. */
+  priority: number;
+  items: (string | ContextItem)[];
+  /** Which items win when not all fit: the first ones (ranked lists) or the last ones (histories). */
+  keep?: 'first' | 'last';
+  separator?: string;
+}
+
+interface SectionReport {
+  name: string;
+  items: number;
+  kept: number;
+  truncated: number;
+  summarized: number;
+}
+
+/** Items are cut down instead of dropped only if at least this many tokens are left for them. */
+const MIN_TRUNCATED_TOKENS = 200;
+/** Share of the context window kept free for the prompt template and the model's answer. */
+const RESERVED_SHARE = 0.25;
+const MAX_RESERVED_TOKENS = 8192;
+
+/**
+ * Packs variable prompt content (issue text, code, project map, attempt history) into a
+ * token budget. Sections are filled in priority order; an item that does not fit is cut
+ * short if enough budget is left, otherwise dropped and listed by its summary. What was
+ * left out is logged and written to the run trace.
+ */
+export class ContextBuilder {
+  private sections: ContextSection[] = [];
+
+  constructor(private label: string, private model: ModelLimits, readonly budget: number) { }
+
+  /**
+   * Builder for a prompt to `provider`'s default model, with `OSS_DEV_CONTEXT_TOKENS` as the
+   * budget, capped by what the model's context window leaves room for.
+   */
+  static for(provider: LLMProvider, label: string, budget = config.contextTokens): ContextBuilder {
+    const model = provider.modelLimits();
+    const reserved = Math.min(Math.floor(model.contextWindow * RESERVED_SHARE), MAX_RESERVED_TOKENS);
+    return new ContextBuilder(label, model, Math.min(budget, model.contextWindow - reserved));
+  }
+
+  add(section: ContextSection): this {
+    this.sections.push(section);
+    return this;
+  }
+
+  /**
+   * Rendered text of every section, by name.
+   */
+  build(): Record<string, string> {
+    const rendered: Record<string, string> = {};
+    const reports: SectionReport[] = [];
+    let remaining = this.budget;
+
+    const byPriority = this.sections.map((section, order) => ({ section, order }))
+      .sort((a, b) => a.section.priority - b.section.priority || a.order - b.order);
+
+    for (const { section } of byPriority) {
+      const separator = section.separator ?? '\n\n';
+      const items = section.items.map(item => (typeof item === 'string' ? { text: item } : item));
+      const order = items.map((_, i) => i);
+      if (section.keep === 'last') order.reverse();
+
+      const kept = new Map<number, string>();
+      const dropped: number[] = [];
+      let truncated = 0;
+      order.forEach((i, position) => {
+        const cost = this.tokens(items[i].text) + this.tokens(separator);
+        // A truncated item leaves room for the summaries of the items after it
+        const laterSummaries = order.slice(position + 1).reduce((sum, j) => sum + this.summaryTokens(items[j]), 0);
+        if (cost <= remaining) {
+          kept.set(i, items[i].text);
+          remaining -= cost;
+        } else if (remaining - laterSummaries >= MIN_TRUNCATED_TOKENS) {
+          const text = this.truncate(items[i].text, remaining - laterSummaries - this.tokens(separator));
+          kept.set(i, text);
+          remaining -= this.tokens(text) + this.tokens(separator);
+          truncated++;
+        } else {
+          dropped.push(i);
+        }
+      });
+
+      const summaries: string[] = [];
+      for (const i of dropped.sort((a, b) => a - b)) {
+        const summary = items[i].summary;
+        if (summary && this.summaryTokens(items[i]) <= remaining) {
+          summaries.push(summary);
+          remaining -= this.summaryTokens(items[i]);
+        }
+      }
+
+      const texts = Array.from(kept.entries()).sort(([a], [b]) => a - b).map(([, text]) => text);
+      if (summaries.length > 0) {
+        texts.push(`(Not shown to stay within the context budget: ${summaries.join(', ')})`);
+      }
+      rendered[section.name] = texts.join(separator);
+      reports.push({ name: section.name, items: items.length, kept: kept.size, truncated, summarized: summaries.length });
+    }
+
+    this.report(reports, this.budget - remaining);
+    return rendered;
+  }
+
+  private tokens(text: string): number {
+    return countTokens(text, this.model);
+  }
+
+  private summaryTokens(item: ContextItem): number {
+    // Summaries are listed comma-separated
+    return item.summary ? this.tokens(item.summary) + 2 : 0;
+  }
+
+  /**
+   * Keeps the leading whole lines of `text` that fit in `tokens`.
+   */
+  private truncate(text: string, tokens: number): string {
+    const marker = (lines: number) => `\n... (${lines} more lines truncated)`;
+    const budgetChars = Math.max(0, Math.floor(tokens * this.model.charsPerToken) - marker(99999).length);
+    let head = text.slice(0, budgetChars);
+    const lastNewline = head.lastIndexOf('\n');
+    if (lastNewline > budgetChars / 2) head = head.slice(0, lastNewline);
+
+    const omitted = text.slice(head.length).replace(/^\n/, '').split('\n').length;
+    return `${head}${marker(omitted)}`;
+  }
+
+  private report(reports: SectionReport[], usedTokens: number): void {
+    trace('context', { label: this.label, budget: this.budget, usedTokens, sections: reports });
+
+    const losses = reports
+      .filter(r => r.kept < r.items || r.truncated > 0)
+      .map(r => {
+        const parts = [];
+        if (r.kept < r.items) parts.push(`dropped ${r.items - r.kept} of ${r.items}`);
+        if (r.truncated > 0) parts.push(`truncated ${r.truncated}`);
+        return `${r.name}: ${parts.join(', ')}`;
+      });
+    if (losses.length > 0) {
+      logger.info(`Context for ${this.label} trimmed to ${usedTokens}/${this.budget} tokens (${losses.join('; ')})`);
+    }
+  }
+}
@@ -0,0 +1,29 @@
+import { ChatGoogleGenerativeAI } from '@langchain/google-genai';
+import { BaseLLMProvider } from './provider';
+
+/**
+ * Google Gemini through the Generative Language API.
+ * Default model is gemini-2.5-flash (cheapest, best for free tier).
+ */
+export class GeminiProvider extends BaseLLMProvider {
+  readonly name = 'gemini' as const;
+  readonly defaultModel: string;
+  readonly fallbackModel = 'gemini-2.5-pro';
+
+  constructor(private apiKey: string, model?: string) {
+    super();
+    this.defaultModel = model || 'gemini-2.5-flash';
+  }
+
+  protected buildModel(model: string, temperature: number) {
+    return new ChatGoogleGenerativeAI({
+      apiKey: this.apiKey,
+      model,
+      apiVersion: 'v1beta',
+      temperature,
+      maxRetries: 3,
+      topP: 0.95,
+      topK: 40,
+    });
+  }
+}
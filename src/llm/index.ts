@@ -0,0 +1,42 @@
+import { LLMProviderName, LLMSelection } from '../types';
+import { config } from '../utils/config';
+import { LLMProvider } from './provider';
+import { GeminiProvider } from './gemini';
+import { OpenAIProvider } from './openai';
+import { AnthropicProvider } from './anthropic';
+
+export { BaseLLMProvider } from './provider';
+export type { LLMProvider, ModelOptions } from './provider';
+export { PRICING, priceFor, calculateCost } from './pricing';
+export { UsageTracker, BudgetExceededError, sessionUsage } from './usage';
+export type { UsageEntry } from './usage';
+export { MODEL_LIMITS, limitsFor, countTokens } from './tokens';
+export type { ModelLimits } from './tokens';
+export { ContextBuilder, CONTEXT_PRIORITY } from './context';
+export type { ContextItem, ContextSection } from './context';
+
+export const LLM_PROVIDERS: LLMProviderName[] = ['gemini', 'openai', 'anthropic'];
+
+/**
+ * Builds the provider for a run. Unset fields fall back to `OSS_DEV_PROVIDER` / `OSS_DEV_MODEL`.
+ */
+export function createProvider(selection: Partial<LLMSelection> = {}): LLMProvider {
+  const provider = selection.provider || config.llmProvider;
+  const model = selection.model || config.llmModel || undefined;
+
+  switch (provider) {
+    case 'gemini':
+      return new GeminiProvider(config.geminiApiKey, model);
+    case 'openai':
+      return new OpenAIProvider({
+        apiKey: config.openaiApiKey,
+        model,
+        baseUrl: config.openaiBaseUrl || undefined,
+        toolCalling: config.openaiToolCalling,
+      });
+    case 'anthropic':
+      return new AnthropicProvider(config.anthropicApiKey, model);
+    default:
+      throw new Error(`Unknown LLM provider "${provider}". Expected one of: ${LLM_PROVIDERS.join(', ')}`);
+  }
+}
@@ -0,0 +1,49 @@
+import { ChatOpenAI } from '@langchain/openai';
+import { BaseLLMProvider } from './provider';
+
+export interface OpenAIProviderOptions {
+  apiKey: string;
+  model?: string;
+  /** Base URL of an OpenAI-compatible server (vLLM, llama.cpp server, Ollama). */
+  baseUrl?: string;
+  /** Whether the server supports tool calling; many self-hosted servers do not. */
+  toolCalling?: boolean;
+}
+
+/**
+ * OpenAI and any server exposing the OpenAI chat completions API.
+ */
+export class OpenAIProvider extends BaseLLMProvider {
+  readonly name = 'openai' as const;
+  readonly defaultModel: string;
+  readonly fallbackModel: string;
+
+  constructor(private options: OpenAIProviderOptions) {
+    super();
+    if (options.baseUrl && !options.model) {
+      throw new Error('OSS_DEV_MODEL must be set when using a custom OpenAI-compatible endpoint.');
+    }
+    this.defaultModel = options.model || 'gpt-4o-mini';
+    // Self-hosted servers usually serve a single model, so there is nothing stronger to fall back to
+    this.fallbackModel = options.baseUrl ? this.defaultModel : 'gpt-4o';
+  }
+
+  protected get pricingKey(): string {
+    return this.options.baseUrl ? 'openai-compatible' : 'openai';
+  }
+
+  protected supportsNativeStructuredOutput(): boolean {
+    return this.options.toolCalling ?? !this.options.baseUrl;
+  }
+
+  protected buildModel(model: string, temperature: number) {
+    return new ChatOpenAI({
+      // Local servers ignore the key but the client requires one
+      apiKey: this.options.apiKey || 'not-needed',
+      model,
+      temperature,
+      maxRetries: 3,
+      configuration: this.options.baseUrl ? { baseURL: this.options.baseUrl } : undefined,
+    });
+  }
+}
@@ -0,0 +1,64 @@
+export interface ModelPrice {
+  /** USD per input token. */
+  input: number;
+  /** USD per output token. */
+  output: number;
+}
+
+const perMillion = (input: number, output: number): ModelPrice => ({
+  input: input / 1_000_000,
+  output: output / 1_000_000,
+});
+
+/**
+ * Per-provider pricing tables. Model names are matched by longest prefix so dated snapshots
+ * (e.g. `gpt-4o-2024-08-06`) resolve to their family price; `default` covers unknown models.
+ */
+export const PRICING: Record<string, Record<string, ModelPrice>> = {
+  gemini: {
+    'gemini-2.5-flash': perMillion(0.05, 0.2),
+    'gemini-2.5-pro': perMillion(0.1, 0.4),
+    'gemini-2.0-flash': perMillion(0.075, 0.3),
+    'gemini-1.5-flash': perMillion(0.075, 0.3),
+    'gemini-1.5-pro': perMillion(0.12, 0.48),
+    default: perMillion(0.075, 0.3),
+  },
+  openai: {
+    'gpt-4o-mini': perMillion(0.15, 0.6),
+    'gpt-4o': perMillion(2.5, 10),
+    'gpt-4.1-mini': perMillion(0.4, 1.6),
+    'gpt-4.1-nano': perMillion(0.1, 0.4),
+    'gpt-4.1': perMillion(2, 8),
+    'o3-mini': perMillion(1.1, 4.4),
+    'o4-mini': perMillion(1.1, 4.4),
+    default: perMillion(2.5, 10),
+  },
+  anthropic: {
+    'claude-3-5-haiku': perMillion(0.8, 4),
+    'claude-3-5-sonnet': perMillion(3, 15),
+    'claude-3-7-sonnet': perMillion(3, 15),
+    'claude-sonnet-4': perMillion(3, 15),
+    'claude-opus-4': perMillion(15, 75),
+    default: perMillion(3, 15),
+  },
+  /** Self-hosted OpenAI-compatible servers (vLLM, llama.cpp, Ollama) have no per-token price. */
+  'openai-compatible': {
+    default: perMillion(0, 0),
+  },
+};
+
+export function priceFor(pricingKey: string, modelName: string): ModelPrice {
+  const table = PRICING[pricingKey] || PRICING['openai-compatible'];
+  const normalized = modelName.replace(/^models\//, '').replace(/-latest$/, '');
+
+  const match = Object.keys(table)
+    .filter(key => key !== 'default' && normalized.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0];
+
+  return table[match || 'default'];
+}
+
+export function calculateCost(pricingKey: string, modelName: string, promptTokens: number, completionTokens: number): number {
+  const prices = priceFor(pricingKey, modelName);
+  return (promptTokens * prices.input) + (completionTokens * prices.output);
+}
@@ -0,0 +1,204 @@
+import { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import { AIMessage, BaseMessage } from '@langchain/core/messages';
+import { toJsonSchema } from '@langchain/core/utils/json_schema';
+import { z } from 'zod';
+import { LLMProviderName, LLMUsage } from '../types';
+import { calculateCost } from './pricing';
+import { limitsFor, ModelLimits } from './tokens';
+import { sessionUsage } from './usage';
+import { logger } from '../utils/logger';
+import { getActiveCassette } from '../utils/cassette';
+import { getRunContext } from '../utils/run-context';
+import { trace } from '../utils/trace';
+
+export interface ModelOptions {
+  /** Model identifier understood by the provider; defaults to the provider's configured model. */
+  model?: string;
+  temperature?: number;
+}
+
+/**
+ * Vendor-neutral access to a chat model: model creation, text and structured generation,
+ * and usage reporting. Agents only talk to models through this interface.
+ */
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  readonly defaultModel: string;
+  /** Stronger model used when the default model fails on a hard task. */
+  readonly fallbackModel: string;
+
+  createModel(options?: ModelOptions): BaseChatModel;
+  generateText(prompt: string, options?: ModelOptions): Promise<string>;
+  generateStructured<T>(schema: z.ZodType<T>, prompt: string, options?: ModelOptions): Promise<T>;
+  /** Enforces JSON output through the prompt alone, for models without tool calling. */
+  generateJSON<T>(prompt: string, schemaDescription: string, options?: ModelOptions): Promise<T>;
+  getUsage(): LLMUsage;
+  /** Context window and tokenizer ratio of a model, the default model if none is given. */
+  modelLimits(model?: string): ModelLimits;
+}
+
+const RATE_LIMIT_ATTEMPTS = 3;
+
+interface TokenCounts {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+interface ModelCall<T> {
+  output: T;
+  usage?: TokenCounts;
+}
+
+/**
+ * Shared behaviour for LangChain-backed providers: retries on rate limits, structured output
+ * with a prompt-based fallback, and usage accounting from `usage_metadata`.
+ */
+export abstract class BaseLLMProvider implements LLMProvider {
+  abstract readonly name: LLMProviderName;
+  abstract readonly defaultModel: string;
+  abstract readonly fallbackModel: string;
+
+  private usage: LLMUsage = { promptTokens: 0, completionTokens: 0, totalTokens: 0, cost: 0 };
+
+  protected abstract buildModel(model: string, temperature: number): BaseChatModel;
+
+  /**
+   * Whether the backing model supports tool calling for `withStructuredOutput`.
+   * Providers that return false get schema-in-prompt JSON instead.
+   */
+  protected supportsNativeStructuredOutput(): boolean {
+    return true;
+  }
+
+  /** Key into the pricing tables; differs from `name` for self-hosted endpoints. */
+  protected get pricingKey(): string {
+    return this.name;
+  }
+
+  createModel(options: ModelOptions = {}): BaseChatModel {
+    return this.buildModel(options.model || this.defaultModel, options.temperature ?? 0);
+  }
+
+  async generateText(prompt: string, options: ModelOptions = {}): Promise<string> {
+    const modelName = options.model || this.defaultModel;
+
+    const call = await this.invoke<string>('text', modelName, { prompt }, async () => {
+      const response = await this.withRateLimitRetry(() => this.createModel(options).invoke(prompt));
+      return { output: messageText(response), usage: tokenCounts(response) };
+    });
+    this.recordUsage(modelName, call.usage);
+    return call.output;
+  }
+
+  async generateStructured<T>(schema: z.ZodType<T>, prompt: string, options: ModelOptions = {}): Promise<T> {
+    if (!this.supportsNativeStructuredOutput()) {
+      const jsonSchema = JSON.stringify(toJsonSchema(schema as any), null, 2);
+      const raw = await this.generateJSON<unknown>(prompt, jsonSchema, options);
+      return schema.parse(raw);
+    }
+
+    const modelName = options.model || this.defaultModel;
+
+    const call = await this.invoke<T>('structured', modelName, { prompt }, async () => {
+      const structured = this.createModel(options).withStructuredOutput(schema as any, { includeRaw: true });
+      const result = await this.withRateLimitRetry(() => structured.invoke(prompt));
+      return { output: result.parsed as T, usage: tokenCounts(result.raw) };
+    });
+    this.recordUsage(modelName, call.usage);
+    return call.output;
+  }
+
+  async generateJSON<T>(prompt: string, schemaDescription: string, options: ModelOptions = {}): Promise<T> {
+    const jsonPrompt = `${prompt}\n\nIMPORTANT: You must return ONLY a valid JSON object. No markdown, no triple backticks, no explanations.
+    The JSON must follow this structure:\n${schemaDescription}`;
+
+    const content = await this.generateText(jsonPrompt, options);
+    try {
+      const cleaned = content.replace(/```json/g, '').replace(/```/g, '').trim();
+      return JSON.parse(cleaned) as T;
+    } catch {
+      logger.debug(`Failed to parse AI JSON response. Content: ${content}`);
+      throw new Error("AI returned invalid JSON format.");
+    }
+  }
+
+  getUsage(): LLMUsage {
+    return { ...this.usage };
+  }
+
+  modelLimits(model?: string): ModelLimits {
+    return limitsFor(this.pricingKey, model || this.defaultModel);
+  }
+
+  protected recordUsage(modelName: string, usage?: TokenCounts): void {
+    if (!usage) return;
+
+    const { promptTokens, completionTokens } = usage;
+    const cost = calculateCost(this.pricingKey, modelName, promptTokens, completionTokens);
+
+    this.usage.promptTokens += promptTokens;
+    this.usage.completionTokens += completionTokens;
+    this.usage.totalTokens += promptTokens + completionTokens;
+    this.usage.cost += cost;
+
+    const entry = { provider: this.name, model: modelName, promptTokens, completionTokens, cost };
+    sessionUsage.record(entry);
+
+    const context = getRunContext();
+    context?.usage.record({ ...entry, node: context.node, attempt: context.attempt });
+  }
+
+  /**
+   * Runs a live model call, or serves it from the active cassette when recording or replaying.
+   * The exact prompt and the raw response are written to the run trace.
+   */
+  private async invoke<T>(kind: string, model: string, request: { prompt: string }, live: () => Promise<ModelCall<T>>): Promise<ModelCall<T>> {
+    const start = Date.now();
+    trace('prompt', { provider: this.name, model, kind, prompt: request.prompt });
+
+    const cassette = getActiveCassette();
+    const call = cassette
+      ? await cassette.intercept('llm', kind, { provider: this.name, model, ...request }, live)
+      : await live();
+
+    trace('response', { provider: this.name, model, kind, output: call.output, usage: call.usage, durationMs: Date.now() - start });
+    return call;
+  }
+
+  /**
+   * Exponential backoff (1s, 2s, 4s) for rate limit errors; anything else is rethrown immediately.
+   */
+  private async withRateLimitRetry<R>(call: () => Promise<R>): Promise<R> {
+    let lastError: Error | null = null;
+
+    for (let attempt = 0; attempt < RATE_LIMIT_ATTEMPTS; attempt++) {
+      try {
+        return await call();
+      } catch (error: any) {
+        lastError = error;
+        if (error?.status === 429 || error?.message?.includes('429') || error?.message?.includes('Too Many Requests')) {
+          const waitTime = Math.pow(2, attempt) * 1000;
+          logger.warn(`Rate limited by ${this.name}. Retrying in ${waitTime}ms... (attempt ${attempt + 1}/${RATE_LIMIT_ATTEMPTS})`);
+          await new Promise(resolve => setTimeout(resolve, waitTime));
+          continue;
+        }
+        throw error;
+      }
+    }
+
+    throw lastError || new Error("Failed to invoke model after retries");
+  }
+}
+
+function tokenCounts(message: BaseMessage): TokenCounts | undefined {
+  const metadata = (message as AIMessage).usage_metadata;
+  if (!metadata) return undefined;
+  return { promptTokens: metadata.input_tokens || 0, completionTokens: metadata.output_tokens || 0 };
+}
+
+function messageText(message: BaseMessage): string {
+  if (typeof message.content === 'string') return message.content;
+  return message.content
+    .map(part => (typeof part === 'string' ? part : part.type === 'text' ? (part as { text: string }).text : ''))
+    .join('');
+}
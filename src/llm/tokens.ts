@@ -0,0 +1,52 @@
+export interface ModelLimits {
+  /** Tokens the model accepts in one request, prompt and output together. */
+  contextWindow: number;
+  /** Average characters per token of the model's tokenizer on source code and English. */
+  charsPerToken: number;
+}
+
+const limits = (contextWindow: number, charsPerToken: number): ModelLimits => ({ contextWindow, charsPerToken });
+
+/**
+ * Per-provider model limits, matched by longest prefix like the pricing tables. Token counts
+ * are estimates from the character ratio of each tokenizer family; no tokenizer is loaded.
+ */
+export const MODEL_LIMITS: Record<string, Record<string, ModelLimits>> = {
+  gemini: {
+    'gemini-2.5': limits(1_048_576, 4),
+    'gemini-2.0': limits(1_048_576, 4),
+    'gemini-1.5-pro': limits(2_097_152, 4),
+    'gemini-1.5': limits(1_048_576, 4),
+    default: limits(1_048_576, 4),
+  },
+  openai: {
+    'gpt-4o': limits(128_000, 4),
+    'gpt-4.1': limits(1_047_576, 4),
+    'o3': limits(200_000, 4),
+    'o4': limits(200_000, 4),
+    default: limits(128_000, 4),
+  },
+  anthropic: {
+    'claude': limits(200_000, 3.5),
+    default: limits(200_000, 3.5),
+  },
+  /** Self-hosted models often run with small windows and less efficient tokenizers. */
+  'openai-compatible': {
+    default: limits(8_192, 3),
+  },
+};
+
+export function limitsFor(provider: string, modelName: string): ModelLimits {
+  const table = MODEL_LIMITS[provider] || MODEL_LIMITS['openai-compatible'];
+  const normalized = modelName.replace(/^models\//, '').replace(/-latest$/, '');
+
+  const match = Object.keys(table)
+    .filter(key => key !== 'default' && normalized.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0];
+
+  return table[match || 'default'];
+}
+
+export function countTokens(text: string, model: ModelLimits): number {
+  return Math.ceil(text.length / model.charsPerToken);
+}
@@ -0,0 +1,70 @@
+import { LLMUsage, UsageEntry } from '../types';
+
+export type { UsageEntry };
+
+export class BudgetExceededError extends Error {
+  constructor(public readonly spent: number, public readonly limit: number) {
+    super(`Cost budget exceeded: spent $${spent.toFixed(4)} of $${limit.toFixed(2)}`);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+const EMPTY_USAGE: LLMUsage = { promptTokens: 0, completionTokens: 0, totalTokens: 0, cost: 0 };
+
+/**
+ * Accumulates token usage and cost reported by providers.
+ */
+export class UsageTracker {
+  private entries: UsageEntry[] = [];
+
+  constructor(entries: UsageEntry[] = []) {
+    this.entries = [...entries];
+  }
+
+  record(entry: UsageEntry): void {
+    this.entries.push(entry);
+  }
+
+  getEntries(): UsageEntry[] {
+    return [...this.entries];
+  }
+
+  summary(): LLMUsage {
+    return summarize(this.entries);
+  }
+
+  /**
+   * Usage grouped by a label derived from each entry, in first-seen order.
+   */
+  groupBy(label: (entry: UsageEntry) => string): Array<{ label: string; usage: LLMUsage }> {
+    const groups = new Map<string, UsageEntry[]>();
+    for (const entry of this.entries) {
+      const key = label(entry);
+      groups.set(key, [...(groups.get(key) || []), entry]);
+    }
+    return Array.from(groups.entries()).map(([key, entries]) => ({ label: key, usage: summarize(entries) }));
+  }
+
+  /**
+   * Throws once the recorded cost exceeds `limit`.
+   */
+  assertWithinBudget(limit?: number): void {
+    if (limit === undefined) return;
+    const spent = this.summary().cost;
+    if (spent > limit) {
+      throw new BudgetExceededError(spent, limit);
+    }
+  }
+}
+
+function summarize(entries: UsageEntry[]): LLMUsage {
+  return entries.reduce<LLMUsage>((acc, e) => ({
+    promptTokens: acc.promptTokens + e.promptTokens,
+    completionTokens: acc.completionTokens + e.completionTokens,
+    totalTokens: acc.totalTokens + e.promptTokens + e.completionTokens,
+    cost: acc.cost + e.cost,
+  }), { ...EMPTY_USAGE });
+}
+
+/** Usage of every provider instance in this process. */
+export const sessionUsage = new UsageTracker();
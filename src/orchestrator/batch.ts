@@ -0,0 +1,98 @@
+import fs from 'fs';
+import { runFixWorkflow } from './workflow';
+import { GitHubClient } from '../tools/github/client';
+import { parseIssueUrl } from '../tools/github/parser';
+import { WorkflowOptions, WorkflowResult } from '../types';
+import { logger } from '../utils/logger';
+
+export interface BatchSource {
+  /** File with one issue URL per line; blank lines and `#` comments are ignored. */
+  file?: string;
+  /** `owner/repo` whose open issues are fixed, optionally filtered by `labels`. */
+  repo?: string;
+  labels?: string[];
+  limit?: number;
+}
+
+export interface BatchItemResult extends WorkflowResult {
+  issueUrl: string;
+}
+
+/**
+ * Resolves the issue URLs a batch should work on, without duplicates.
+ */
+export async function resolveBatchIssues(source: BatchSource): Promise<string[]> {
+  let urls: string[];
+
+  if (source.file) {
+    urls = fs.readFileSync(source.file, 'utf8')
+      .split('\n')
+      .map(line => line.trim())
+      .filter(line => line && !line.startsWith('#'));
+    // Fail on a malformed line before any run starts
+    urls.forEach(url => parseIssueUrl(url));
+  } else if (source.repo) {
+    const [owner, repo] = source.repo.split('/');
+    if (!owner || !repo) {
+      throw new Error(`Expected a repository as owner/repo, got "${source.repo}"`);
+    }
+    const github = new GitHubClient(process.env.GITHUB_TOKEN!);
+    const issues = await github.listIssues(owner, repo, { labels: source.labels, limit: source.limit });
+    urls = issues.map(issue => `https://github.com/${owner}/${repo}/issues/${issue.number}`);
+  } else {
+    throw new Error('A batch needs either an issue file or a repository.');
+  }
+
+  return Array.from(new Set(urls));
+}
+
+/**
+ * Runs the fix workflow for every issue with at most `concurrency` runs in flight. Each run
+ * has its own clone, sandbox and run context; a run that fails or throws does not affect the others.
+ */
+export async function runBatch(
+  issueUrls: string[],
+  options: WorkflowOptions,
+  concurrency: number,
+  onResult?: (result: BatchItemResult) => void
+): Promise<BatchItemResult[]> {
+  const results: BatchItemResult[] = new Array(issueUrls.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < issueUrls.length) {
+      const index = next++;
+      const issueUrl = issueUrls[index];
+      const { repo, issueNumber } = parseIssueUrl(issueUrl);
+      const startTime = Date.now();
+
+      let result: WorkflowResult;
+      try {
+        result = await runFixWorkflow(issueUrl, {
+          ...options,
+          // Runs in a batch cannot share the terminal for prompts
+          interactive: false,
+          label: `${repo}#${issueNumber}`,
+        });
+      } catch (error: any) {
+        logger.error(`Run for ${issueUrl} crashed: ${error.message}`);
+        result = {
+          runId: '-',
+          status: 'failed',
+          error: error.message,
+          attempts: 0,
+          duration: Math.floor((Date.now() - startTime) / 1000),
+          cost: 0,
+          usage: [],
+        };
+      }
+
+      results[index] = { issueUrl, ...result };
+      onResult?.(results[index]);
+    }
+  };
+
+  const workers = Array.from({ length: Math.max(1, Math.min(concurrency, issueUrls.length)) }, worker);
+  await Promise.all(workers);
+  return results;
+}
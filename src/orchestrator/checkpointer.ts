@@ -0,0 +1,60 @@
+import { MemorySaver } from '@langchain/langgraph';
+import fs from 'fs';
+import path from 'path';
+
+interface CheckpointFile {
+  version: 1;
+  storage: MemorySaver['storage'];
+  writes: MemorySaver['writes'];
+}
+
+/**
+ * LangGraph checkpointer that keeps checkpoints in memory and mirrors them to a JSON file
+ * after every write, so a run killed between nodes can continue from its last checkpoint.
+ * Serialized checkpoints are byte arrays and are stored base64-encoded.
+ */
+export class FileCheckpointSaver extends MemorySaver {
+  constructor(private filePath: string) {
+    super();
+    if (fs.existsSync(filePath)) {
+      const file = JSON.parse(fs.readFileSync(filePath, 'utf8'), reviveBytes) as CheckpointFile;
+      this.storage = file.storage;
+      this.writes = file.writes;
+    }
+  }
+
+  override async put(...args: Parameters<MemorySaver['put']>): ReturnType<MemorySaver['put']> {
+    const result = await super.put(...args);
+    this.flush();
+    return result;
+  }
+
+  override async putWrites(...args: Parameters<MemorySaver['putWrites']>): Promise<void> {
+    await super.putWrites(...args);
+    this.flush();
+  }
+
+  override async deleteThread(threadId: string): Promise<void> {
+    await super.deleteThread(threadId);
+    this.flush();
+  }
+
+  private flush(): void {
+    const file: CheckpointFile = { version: 1, storage: this.storage, writes: this.writes };
+    const temp = `${this.filePath}.tmp`;
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    // Write then rename so an interrupted flush never leaves a truncated file behind
+    fs.writeFileSync(temp, JSON.stringify(file, replaceBytes));
+    fs.renameSync(temp, this.filePath);
+  }
+}
+
+function replaceBytes(_key: string, value: unknown): unknown {
+  return value instanceof Uint8Array ? { $bytes: Buffer.from(value).toString('base64') } : value;
+}
+
+function reviveBytes(_key: string, value: any): unknown {
+  return value && typeof value === 'object' && typeof value.$bytes === 'string'
+    ? new Uint8Array(Buffer.from(value.$bytes, 'base64'))
+    : value;
+}
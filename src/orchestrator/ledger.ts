@@ -0,0 +1,52 @@
+import { AttemptRecord } from '../types';
+
+/**
+ * Graph reducer for the attempt ledger: updates for an attempt already in the ledger are
+ * merged into it, anything else is appended.
+ */
+export function mergeLedger(ledger: AttemptRecord[], updates: AttemptRecord[] | undefined): AttemptRecord[] {
+  if (!updates?.length) return ledger;
+
+  const merged = [...ledger];
+  for (const update of updates) {
+    const index = merged.findIndex(entry => entry.attempt === update.attempt);
+    if (index === -1) {
+      merged.push(update);
+    } else {
+      merged[index] = { ...merged[index], ...update };
+    }
+  }
+  return merged.sort((a, b) => a.attempt - b.attempt);
+}
+
+/**
+ * One line per attempt, for the pull request body.
+ */
+export function summarizeLedger(ledger: AttemptRecord[]): string {
+  return ledger.map(entry => `- Attempt ${entry.attempt}: ${describeOutcome(entry)}`).join('\n');
+}
+
+function describeOutcome(entry: AttemptRecord): string {
+  switch (entry.outcome) {
+    case 'rejected':
+      return `rejected in review (${entry.review?.category}): ${firstLine(entry.review?.feedback)}`;
+    case 'unapplied':
+      return `change set could not be applied: ${firstLine(entry.tests?.summary)}`;
+    case 'blocked':
+      return `blocked by the change policy: ${firstLine(entry.policyViolations?.join('; '))}`;
+    case 'failed': {
+      const delta = entry.tests?.delta;
+      const detail = delta ? `${delta.newlyFailing.length} newly failing, ${delta.stillFailing.length} still failing` : firstLine(entry.tests?.summary);
+      return `tests failed (${detail})${entry.diagnosis ? `. ${firstLine(entry.diagnosis)}` : ''}`;
+    }
+    case 'passed':
+      return 'approved in review and tests passed';
+    default:
+      return 'not verified';
+  }
+}
+
+function firstLine(text: string | undefined, max = 200): string {
+  const line = (text || '').trim().split('\n')[0];
+  return line.length > max ? `${line.slice(0, max)}...` : line;
+}
@@ -0,0 +1,61 @@
+import fs from 'fs';
+import path from 'path';
+import { RunRecord } from '../types';
+import { config } from '../utils/config';
+import { FileCheckpointSaver } from './checkpointer';
+import { TraceWriter } from '../utils/trace';
+
+/**
+ * Runs are stored as `<dataDir>/runs/<runId>/` with `run.json` (the record),
+ * `checkpoints.json` (LangGraph state after every node) and `trace.jsonl` (audit trail).
+ */
+export function runsDir(): string {
+  return path.join(config.dataDir, 'runs');
+}
+
+export function runDir(runId: string): string {
+  return path.join(runsDir(), runId);
+}
+
+export function saveRunRecord(record: RunRecord): void {
+  const file = path.join(runDir(record.runId), 'run.json');
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify({ ...record, updatedAt: new Date().toISOString() }, null, 2) + '\n');
+}
+
+export function loadRunRecord(runId: string): RunRecord {
+  const file = path.join(runDir(runId), 'run.json');
+  if (!fs.existsSync(file)) {
+    throw new Error(`No run found with id "${runId}" in ${runsDir()}`);
+  }
+  return JSON.parse(fs.readFileSync(file, 'utf8')) as RunRecord;
+}
+
+/**
+ * All recorded runs, newest first. Directories without a readable record are skipped.
+ */
+export function listRuns(): RunRecord[] {
+  if (!fs.existsSync(runsDir())) return [];
+
+  return fs.readdirSync(runsDir())
+    .flatMap(runId => {
+      try {
+        return [loadRunRecord(runId)];
+      } catch {
+        return [];
+      }
+    })
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export function tracePath(runId: string): string {
+  return path.join(runDir(runId), 'trace.jsonl');
+}
+
+export function createTraceWriter(runId: string): TraceWriter {
+  return new TraceWriter(tracePath(runId));
+}
+
+export function createCheckpointer(runId: string): FileCheckpointSaver {
+  return new FileCheckpointSaver(path.join(runDir(runId), 'checkpoints.json'));
+}
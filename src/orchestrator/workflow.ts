@@ -1,93 +1,241 @@
 import { createFixGraph } from './graph';
-import { E2BSandbox } from '../sandbox/e2b';
+import { createCheckpointer, createTraceWriter, loadRunRecord, saveRunRecord } from './runs';
+import { createSandbox } from '../sandbox';
 import { GitHubClient } from '../tools/github/client';
+import { GitService } from '../tools/git/service';
 import { parseIssueUrl } from '../tools/github/parser';
-import { WorkflowOptions, WorkflowResult, AgentState } from '../types';
+import { applyChangeSet, resolveChangeSet } from '../tools/changes';
+import { failingCases } from '../tools/testing';
+import { WorkflowOptions, WorkflowResult, AgentState, Sandbox, RunRecord, LLMSelection } from '../types';
+import { BudgetExceededError, createProvider, UsageTracker } from '../llm';
+import { config } from '../utils/config';
 import { logger } from '../utils/logger';
+import { applyRepoConfig, loadRepoConfig } from '../utils/repo-config';
+import { getActiveCassette } from '../utils/cassette';
+import { runWithContext, withNodeScope, RunContext } from '../utils/run-context';
+import crypto from 'crypto';
+import fs from 'fs';
 import os from 'os';
 import path from 'path';
 
 /**
  * Executes the full autonomous fix workflow for a given GitHub issue.
+ * Model usage is tracked for this run only and checked against the cost budget between steps.
+ * Graph state is checkpointed after every node so the run can be resumed with `resumeFixWorkflow`.
  */
 export async function runFixWorkflow(
   issueUrl: string,
   options: WorkflowOptions
 ): Promise<WorkflowResult> {
+  const now = new Date().toISOString();
+  const record: RunRecord = {
+    runId: crypto.randomUUID().slice(0, 8),
+    issueUrl,
+    options,
+    status: 'running',
+    createdAt: now,
+    updatedAt: now,
+    usage: [],
+  };
+  saveRunRecord(record);
+  logger.info(`Run ${record.runId} started for ${issueUrl} (resume with: oss-dev resume ${record.runId})`);
+
+  return executeRun(record, new UsageTracker(), false);
+}
+
+/**
+ * Continues a run from its last checkpoint. The sandbox is provisioned again because it
+ * cannot be serialized; usage recorded before the interruption still counts against the budget.
+ */
+export async function resumeFixWorkflow(
+  runId: string,
+  overrides: Pick<WorkflowOptions, 'maxCost'> = {}
+): Promise<WorkflowResult> {
+  const record = loadRunRecord(runId);
+  if (record.status === 'success') {
+    throw new Error(`Run ${runId} already completed successfully${record.prUrl ? ` (${record.prUrl})` : ''}.`);
+  }
+
+  record.options = { ...record.options, ...overrides };
+  record.status = 'running';
+  record.error = undefined;
+  logger.info(`Resuming run ${runId} after ${record.lastNode || 'start'}`);
+
+  return executeRun(record, new UsageTracker(record.usage), true);
+}
+
+function executeRun(record: RunRecord, usage: UsageTracker, resume: boolean): Promise<WorkflowResult> {
+  const context: RunContext = {
+    runId: record.runId,
+    label: record.options.label,
+    usage,
+    maxCost: record.options.maxCost ?? config.maxCost,
+    trace: createTraceWriter(record.runId),
+    onNodeComplete: node => {
+      record.lastNode = node;
+      record.usage = usage.getEntries();
+      saveRunRecord(record);
+    },
+  };
+
+  return runWithContext(context, () => executeWorkflow(record, context, resume));
+}
+
+async function executeWorkflow(
+  record: RunRecord,
+  context: RunContext,
+  resume: boolean
+): Promise<WorkflowResult> {
+  const { issueUrl, options } = record;
+  const usage = context.usage;
   const startTime = Date.now();
-  let sandbox: E2BSandbox | undefined;
+  let sandbox: Sandbox | undefined;
+
+  const finish = (result: Omit<WorkflowResult, 'runId' | 'duration' | 'cost' | 'usage'>, ended: boolean): WorkflowResult => {
+    record.status = result.status;
+    record.prUrl = result.prUrl;
+    record.error = result.error;
+    record.usage = usage.getEntries();
+    saveRunRecord(record);
+
+    // Temporary clones are removed once the graph has run to its end; a run that stopped
+    // midway keeps its clone, since the checkpointed state points `resume` at it
+    if (ended && !options.useLocal && record.repoPath) {
+      fs.rmSync(record.repoPath, { recursive: true, force: true });
+    }
+
+    return {
+      ...result,
+      runId: record.runId,
+      duration: Math.floor((Date.now() - startTime) / 1000),
+      cost: usage.summary().cost,
+      usage: usage.getEntries(),
+    };
+  };
 
   try {
     const { owner, repo } = parseIssueUrl(issueUrl);
     const github = new GitHubClient(process.env.GITHUB_TOKEN!);
+    const graph = createFixGraph(createCheckpointer(record.runId));
+    const graphConfig = { configurable: { thread_id: record.runId } };
+    const saved: Partial<AgentState> = resume ? (await graph.getState(graphConfig)).values : {};
 
     let repoPath: string;
     if (options.useLocal) {
-      repoPath = process.cwd();
+      repoPath = record.repoPath || process.cwd();
       logger.info(`Operating on local repository: ${repoPath}`);
     } else {
-      repoPath = path.join(os.tmpdir(), `oss-dev-${Date.now()}`);
-      logger.info(`Cloning repository to temporary path: ${repoPath}`);
-      await github.cloneRepo(owner, repo, repoPath);
+      if (record.repoPath && fs.existsSync(record.repoPath)) {
+        repoPath = record.repoPath;
+        logger.info(`Reusing clone at ${repoPath}`);
+      } else {
+        // A fresh directory per run keeps concurrent runs from sharing a clone
+        repoPath = fs.mkdtempSync(path.join(os.tmpdir(), 'oss-dev-'));
+        logger.info(`Cloning repository to temporary path: ${repoPath}`);
+        await github.cloneRepo(owner, repo, repoPath);
+      }
     }
+    record.repoPath = repoPath;
+    saveRunRecord(record);
+
+    // Flags given on the command line win over the repository's configuration
+    let repoConfig = loadRepoConfig(repoPath);
+    if (repoConfig.baseBranch && !options.useLocal) {
+      const { baseBranch } = repoConfig;
+      await new GitService(repoPath).checkoutBranch(baseBranch);
+      // The default branch only says where to go; every other setting comes from the branch
+      // the pull request targets
+      repoConfig = { ...loadRepoConfig(repoPath), baseBranch };
+    }
+    const llm: LLMSelection | undefined = options.llm
+      ?? (repoConfig.llm ? { provider: repoConfig.llm.provider || config.llmProvider, model: repoConfig.llm.model } : undefined);
 
     // Step 1: Detect the technology stack
-    const { StackDetectorAgent } = await import('../agents/stack-detector');
-    const detector = new StackDetectorAgent(process.env.GEMINI_API_KEY!);
+    let fingerprint = saved.fingerprint;
+    if (!fingerprint) {
+      const { StackDetectorAgent } = await import('../agents/stack-detector');
+      const detector = new StackDetectorAgent(createProvider(llm));
 
-    logger.info('Analyzing project structure...');
-    const fingerprint = await detector.detectStack(repoPath);
+      logger.info('Analyzing project structure...');
+      const detected = await withNodeScope('detect_stack', 0, () => detector.detectStack(repoPath));
+      fingerprint = applyRepoConfig(detected, repoConfig);
+    }
     logger.info(`Stack detected: ${fingerprint.language} (${fingerprint.runtime})`);
 
     // Step 2: Initialize Sandbox
-    sandbox = new E2BSandbox();
+    // A clone switched to the configured base branch is copied as it is: a fresh clone in the
+    // sandbox would test the default branch instead of the one the pull request targets
+    sandbox = createSandbox(options.sandbox);
     await sandbox.provision(
       `https://github.com/${owner}/${repo}.git`,
       fingerprint,
-      options.useLocal ? repoPath : undefined
+      options.useLocal || repoConfig.baseBranch ? repoPath : undefined
     );
+    context.sandbox = sandbox;
+
+    // Bring a rebuilt sandbox back to the state the checkpoint assumes: the regression test
+    // is in place, and a verified fix stays applied
+    if (saved.reproduction) {
+      await sandbox.writeFile(saved.reproduction.file, saved.reproduction.content);
+    }
+    if (saved.status === 'success' && saved.currentFix) {
+      await applyChangeSet(sandbox, await resolveChangeSet(sandbox, saved.currentFix));
+    }
 
     // Step 3: Execute the Agentic Graph
     // The graph handles: Analyze -> Search -> Fix -> Verify
-    const graph = createFixGraph();
     const initialState: AgentState = {
       issueUrl,
       repoPath,
       fingerprint,
       contextSnippets: [],
       testResults: [],
+      ledger: [],
       attempts: 0,
-      maxAttempts: options.maxAttempts,
-      sandbox,
+      maxAttempts: options.maxAttempts ?? repoConfig.maxAttempts ?? 5,
       dryRun: options.dryRun,
+      interactive: options.interactive,
+      draft: options.draft,
+      allowMaintainerEdits: options.allowMaintainerEdits,
+      llm,
+      repoConfig,
       status: 'running'
     };
 
-    logger.info('Starting autonomous fix loop...');
-    const finalState = await graph.invoke(initialState);
+    // A run that stopped before its first checkpoint starts the graph from scratch
+    const continuing = Boolean(saved.issueUrl);
+    logger.info(continuing ? 'Continuing autonomous fix loop...' : 'Starting autonomous fix loop...');
+    // A clone that had to be made again lives at a new path; later nodes must use that one
+    if (continuing && saved.repoPath !== repoPath) {
+      await graph.updateState(graphConfig, { repoPath });
+    }
+    // A null input tells LangGraph to continue from the thread's last checkpoint
+    const finalState = await graph.invoke(continuing ? null : initialState, graphConfig);
 
     await sandbox.cleanup();
 
     if (finalState.status === 'success') {
-      return {
+      return finish({
         status: 'success',
         prUrl: finalState.prUrl,
         attempts: finalState.attempts,
-        duration: Math.floor((Date.now() - startTime) / 1000),
-        cost: 0, // Cost tracking to be implemented
-      };
+      }, true);
     } else {
-      return {
+      const lastRun = finalState.testResults[finalState.testResults.length - 1];
+      return finish({
         status: 'failed',
         error: finalState.error || 'Workflow completed without reaching success state.',
+        failingTests: lastRun ? failingCases(lastRun) : undefined,
         attempts: finalState.attempts,
-        duration: Math.floor((Date.now() - startTime) / 1000),
-        cost: 0,
-      };
+      }, true);
     }
 
   } catch (error: any) {
-    logger.error(`Critical workflow failure: ${error.message}`);
+    if (error instanceof BudgetExceededError) {
+      logger.warn(`Stopping run: ${error.message}`);
+    } else {
+      logger.error(`Critical workflow failure: ${error.message}`);
+    }
     if (sandbox) {
       try {
         await sandbox.cleanup();
@@ -96,12 +244,13 @@ export async function runFixWorkflow(
       }
     }
 
-    return {
-      status: 'failed',
+    return finish({
+      status: error instanceof BudgetExceededError ? 'budget_exceeded' : 'failed',
       error: error.message,
-      attempts: 0,
-      duration: Math.floor((Date.now() - startTime) / 1000),
-      cost: 0,
-    };
+      // The node that threw has no state update; usage entries still know the last attempt
+      attempts: Math.max(0, ...usage.getEntries().map(e => e.attempt || 0)),
+    }, false);
+  } finally {
+    getActiveCassette()?.save();
   }
 }
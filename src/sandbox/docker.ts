@@ -0,0 +1,90 @@
+import { execa } from 'execa';
+import os from 'os';
+import path from 'path';
+import { CommandResult, RepoFingerprint, SandboxBackend } from '../types';
+import { LocalSandbox } from './local';
+import { config } from '../utils/config';
+import { logger } from '../utils/logger';
+
+const WORKSPACE = '/workspace';
+
+/** Images used when the fingerprint's runtime is not already an image reference. */
+const RUNTIME_IMAGES: Record<string, string> = {
+  node: 'node:20',
+  javascript: 'node:20',
+  typescript: 'node:20',
+  python: 'python:3.12',
+  go: 'golang:1.22',
+  rust: 'rust:1',
+  java: 'maven:3-eclipse-temurin-21',
+  ruby: 'ruby:3.3',
+  dotnet: 'mcr.microsoft.com/dotnet/sdk:8.0',
+  php: 'composer:2',
+  elixir: 'elixir:1.17',
+};
+
+const DEFAULT_IMAGE = 'ubuntu:22.04';
+
+/**
+ * Runs commands in a local Docker container. The checkout lives on the host, as with
+ * `LocalSandbox`, and is bind-mounted into the container, so file operations stay on the host.
+ */
+export class DockerSandbox extends LocalSandbox {
+  override readonly backend: SandboxBackend = 'docker';
+  private containerId: string | null = null;
+  private containerWorkingDir = WORKSPACE;
+
+  protected override async prepare(fingerprint: RepoFingerprint): Promise<void> {
+    const image = resolveImage(fingerprint);
+    logger.info(`Starting Docker container from ${image}...`);
+
+    // Run as the host user so files written by installs and tests stay removable
+    const { uid, gid } = os.userInfo();
+    const user = uid >= 0 ? ['--user', `${uid}:${gid}`, '--env', 'HOME=/tmp'] : [];
+
+    const { stdout } = await execa('docker', [
+      'run', '--detach', '--rm',
+      '--volume', `${this.rootDir}:${WORKSPACE}`,
+      ...user,
+      image,
+      'sleep', 'infinity',
+    ]);
+    this.containerId = stdout.trim();
+
+    const relative = path.relative(this.rootDir!, this.workingDir).split(path.sep).join('/');
+    this.containerWorkingDir = relative ? path.posix.join(WORKSPACE, relative) : WORKSPACE;
+  }
+
+  override async runCommand(command: string): Promise<CommandResult> {
+    if (!this.containerId) throw new Error('Sandbox not initialized');
+
+    const start = Date.now();
+    const result = await execa(
+      'docker',
+      ['exec', '--workdir', this.containerWorkingDir, this.containerId, 'sh', '-c', command],
+      { reject: false }
+    );
+    return {
+      stdout: result.stdout,
+      stderr: result.stderr,
+      exitCode: result.exitCode ?? 1,
+      duration: Date.now() - start,
+    };
+  }
+
+  override async cleanup(): Promise<void> {
+    if (this.containerId) {
+      await execa('docker', ['rm', '--force', this.containerId], { reject: false });
+      this.containerId = null;
+    }
+    await super.cleanup();
+  }
+}
+
+function resolveImage(fingerprint: RepoFingerprint): string {
+  if (config.dockerImage) return config.dockerImage;
+  if (fingerprint.runtime.includes(':')) return fingerprint.runtime;
+  return RUNTIME_IMAGES[fingerprint.runtime.toLowerCase()]
+    || RUNTIME_IMAGES[fingerprint.language.toLowerCase()]
+    || DEFAULT_IMAGE;
+}
@@ -1,13 +1,17 @@
-import { Sandbox } from '@e2b/code-interpreter';
-import { RepoFingerprint, TestResult } from '../types';
+import { Sandbox as E2BInstance, CommandExitError } from '@e2b/code-interpreter';
+import { CommandResult, RepoFingerprint, Sandbox, TestResult } from '../types';
 import { logger } from '../utils/logger';
 import os from 'os';
 import path from 'path';
 import fs from 'fs/promises';
 import { execSync } from 'child_process';
 
-export class E2BSandbox {
-  private sandbox: Sandbox | null = null;
+const REPO_DIR = '/home/user/repo';
+
+export class E2BSandbox implements Sandbox {
+  readonly backend = 'e2b' as const;
+  private sandbox: E2BInstance | null = null;
+  private workingDir = REPO_DIR;
 
   /**
    * Provisions a new E2B sandbox environment for the given repository.
@@ -21,12 +25,12 @@ export class E2BSandbox {
     }
 
     try {
-      this.sandbox = await Sandbox.create(template, {
+      this.sandbox = await E2BInstance.create(template, {
         timeoutMs: 900000 // 15 minutes
       });
     } catch (e: any) {
       logger.warn(`Failed to create sandbox with template ${template}: ${e.message}. Falling back to default.`);
-      this.sandbox = await Sandbox.create(undefined as any, {
+      this.sandbox = await E2BInstance.create(undefined as any, {
         timeoutMs: 900000
       });
     }
@@ -38,14 +42,14 @@ export class E2BSandbox {
     logger.info('Sandbox instance created.');
 
     const repoDir = 'repo';
-    const absRepoPath = '/home/user/repo';
+    const absRepoPath = REPO_DIR;
 
     if (localPath) {
       logger.info(`Syncing local repository: ${localPath}`);
       await this.syncLocalRepo(localPath, repoDir);
     } else {
       try {
-        const clone = await this.sandbox.commands.run(`git clone ${githubUrl} ${repoDir}`);
+        const clone = await this.exec(`git clone ${githubUrl} ${repoDir}`);
         if (clone.exitCode !== 0) {
           throw new Error(`Git clone failed with exit code ${clone.exitCode}: ${clone.stderr}`);
         }
@@ -60,11 +64,12 @@ export class E2BSandbox {
 
     // Install project dependencies
     const workingDir = fingerprint.projectRoot ? path.join(absRepoPath, fingerprint.projectRoot).replace(/\\/g, '/') : absRepoPath;
+    this.workingDir = workingDir;
     const installCmd = `cd ${workingDir} && ${fingerprint.installCommand}`;
     
     logger.info(`Installing dependencies in ${workingDir}...`);
     try {
-      const install = await this.sandbox.commands.run(installCmd);
+      const install = await this.exec(installCmd);
       if (install.exitCode !== 0) {
         logger.warn(`Warning: Installation command failed: ${install.stderr || install.stdout}`);
       }
@@ -83,13 +88,13 @@ export class E2BSandbox {
 
     if (fingerprint.language.toLowerCase() === 'go') {
       try {
-        const check = await this.sandbox.commands.run('go version');
+        const check = await this.exec('go version');
         if (check.exitCode !== 0) throw new Error('not installed');
       } catch {
         logger.info('Installing Go runtime...');
         // Use a more reliable way to install Go on Ubuntu
         const setupCmd = 'sudo apt-get update && sudo apt-get install -y golang-go || (curl -OL https://go.dev/dl/go1.22.0.linux-amd64.tar.gz && sudo tar -C /usr/local -xzf go1.22.0.linux-amd64.tar.gz && export PATH=$PATH:/usr/local/go/bin)';
-        await this.sandbox.commands.run(setupCmd);
+        await this.exec(setupCmd);
       }
     }
     // Add other language-specific checks as needed
@@ -121,7 +126,7 @@ export class E2BSandbox {
       }
 
       // Extract the archive in the sandbox
-      const extract = await this.sandbox.commands.run(`tar -xf ${remoteTarPath} -C ${remotePath}`);
+      const extract = await this.exec(`tar -xf ${remoteTarPath} -C ${remotePath}`);
       if (extract.exitCode !== 0) {
         throw new Error(`Failed to extract repository archive: ${extract.stderr}`);
       }
@@ -138,31 +143,85 @@ export class E2BSandbox {
     }
   }
 
+  /**
+   * File operations take paths relative to the repository root.
+   */
+  async exists(filePath: string): Promise<boolean> {
+    if (!this.sandbox) throw new Error('Sandbox not initialized');
+    return await this.sandbox.files.exists(this.resolvePath(filePath));
+  }
+
   async readFile(filePath: string): Promise<string> {
     if (!this.sandbox) throw new Error('Sandbox not initialized');
-    return await this.sandbox.files.read(filePath);
+    return await this.sandbox.files.read(this.resolvePath(filePath));
   }
 
   async writeFile(filePath: string, content: string): Promise<void> {
     if (!this.sandbox) throw new Error('Sandbox not initialized');
-    await this.sandbox.files.write(filePath, content);
+    const target = this.resolvePath(filePath);
+    const previous = await this.sandbox.files.exists(target) ? await this.sandbox.files.getInfo(target) : null;
+
+    await this.sandbox.files.write(target, content);
+
+    // Keep the executable bit and other permissions of files that are rewritten
+    if (previous) {
+      const current = await this.sandbox.files.getInfo(target);
+      if ((current.mode & 0o7777) !== (previous.mode & 0o7777)) {
+        await this.sandbox.commands.run(`chmod ${(previous.mode & 0o7777).toString(8)} '${target}'`);
+      }
+    }
   }
 
-  async runTests(testCommand: string): Promise<TestResult> {
+  async deleteFile(filePath: string): Promise<void> {
     if (!this.sandbox) throw new Error('Sandbox not initialized');
+    await this.sandbox.files.remove(this.resolvePath(filePath));
+  }
+
+  async renameFile(from: string, to: string): Promise<void> {
+    if (!this.sandbox) throw new Error('Sandbox not initialized');
+    const destination = this.resolvePath(to);
+    await this.sandbox.files.makeDir(path.posix.dirname(destination));
+    await this.sandbox.files.rename(this.resolvePath(from), destination);
+  }
 
+  async runCommand(command: string): Promise<CommandResult> {
     const start = Date.now();
-    const result = await this.sandbox.commands.run(testCommand);
+    const result = await this.exec(`cd ${this.workingDir} && ${command}`);
+    return { ...result, duration: Date.now() - start };
+  }
+
+  async runTests(testCommand: string): Promise<TestResult> {
+    const result = await this.runCommand(testCommand);
 
     return {
       passed: result.exitCode === 0,
       output: result.stdout,
       error: result.stderr,
       exitCode: result.exitCode,
-      duration: Date.now() - start,
+      duration: result.duration,
     };
   }
 
+  /**
+   * The SDK throws `CommandExitError` for non-zero exits; callers here expect the exit code instead.
+   */
+  private async exec(command: string): Promise<Omit<CommandResult, 'duration'>> {
+    if (!this.sandbox) throw new Error('Sandbox not initialized');
+    try {
+      const { stdout, stderr, exitCode } = await this.sandbox.commands.run(command);
+      return { stdout, stderr, exitCode };
+    } catch (error) {
+      if (error instanceof CommandExitError) {
+        return { stdout: error.stdout, stderr: error.stderr, exitCode: error.exitCode };
+      }
+      throw error;
+    }
+  }
+
+  private resolvePath(filePath: string): string {
+    return path.posix.isAbsolute(filePath) ? filePath : path.posix.join(REPO_DIR, filePath);
+  }
+
   async cleanup(): Promise<void> {
     if (this.sandbox) {
       await this.sandbox.kill();
@@ -1,83 +1,376 @@
 import * as fs from 'fs';
 import * as path from 'path';
-import { RepoFingerprint } from '../types';
-
-export function detectStack(repoPath: string): RepoFingerprint {
-  // Check root directory first
-  if (fs.existsSync(path.join(repoPath, 'package.json'))) {
-    return {
-      language: 'javascript',
-      runtime: 'node:20',
-      packageManager: 'npm',
-      installCommand: 'npm install',
-      testCommand: 'npm test',
-    };
-  }
-
-  if (fs.existsSync(path.join(repoPath, 'go.mod'))) {
-    return {
-      language: 'go',
-      runtime: 'golang:1.21',
-      packageManager: 'go',
-      installCommand: 'go mod download',
-      testCommand: 'go test ./...',
-    };
-  }
-
-  if (fs.existsSync(path.join(repoPath, 'requirements.txt'))) {
-    return {
-      language: 'python',
-      runtime: 'python:3.11',
-      packageManager: 'pip',
-      installCommand: 'pip install -r requirements.txt',
-      testCommand: 'pytest',
-    };
-  }
-
-  if (fs.existsSync(path.join(repoPath, 'Cargo.toml'))) {
-    return {
-      language: 'rust',
-      runtime: 'rust:latest',
-      packageManager: 'cargo',
-      installCommand: 'cargo build',
-      testCommand: 'cargo test',
-    };
-  }
-
-  // Check common subdirectories for monorepos
-  const commonDirs = ['backend', 'server', 'api', 'src'];
-  for (const dir of commonDirs) {
-    const subPath = path.join(repoPath, dir);
-    if (fs.existsSync(subPath)) {
-      if (fs.existsSync(path.join(subPath, 'go.mod'))) {
-        return {
-          language: 'go',
-          runtime: 'golang:1.21',
-          packageManager: 'go',
-          installCommand: `cd ${dir} && go mod download`,
-          testCommand: `cd ${dir} && go test ./...`,
-        };
-      }
-      if (fs.existsSync(path.join(subPath, 'package.json'))) {
-        return {
-          language: 'javascript',
-          runtime: 'node:20',
-          packageManager: 'npm',
-          installCommand: `cd ${dir} && npm install`,
-          testCommand: `cd ${dir} && npm test`,
-        };
-      }
-      if (fs.existsSync(path.join(subPath, 'requirements.txt'))) {
-        return {
-          language: 'python',
-          runtime: 'python:3.11',
-          packageManager: 'pip',
-          installCommand: `cd ${dir} && pip install -r requirements.txt`,
-          testCommand: `cd ${dir} && pytest`,
-        };
-      }
+import { RepoFingerprint, Sandbox, Workspace } from '../types';
+import { detectWorkspace, packageTestCommand } from './workspace';
+
+export interface StackCandidate {
+  fingerprint: RepoFingerprint;
+  /** Files the stack was recognised from, e.g. `pnpm-lock.yaml` or `tox.ini`. */
+  evidence: string[];
+  /** `low` when the test command is a guess rather than read from the project's configuration. */
+  confidence: 'high' | 'low';
+  /** Plainer setup (e.g. pip instead of Poetry), only used when the preferred tool is missing. */
+  fallback?: boolean;
+}
+
+export interface StackDetection {
+  /** Best first. */
+  candidates: StackCandidate[];
+  /** Whether the rules could not settle on one candidate, so the model has to decide. */
+  ambiguous: boolean;
+}
+
+/** Directories searched for manifests, in order; the first with any becomes the project root. */
+const PROJECT_DIRS = ['', 'backend', 'server', 'api', 'src'];
+
+const SHELL_BUILTINS = new Set(['cd', 'true', 'false', 'export', 'echo', 'set', 'source', '.', 'test', '[', 'exit']);
+
+/**
+ * Files of one directory of the repository.
+ */
+class ProjectDir {
+  private names: string[];
+
+  constructor(readonly repoPath: string, readonly dir: string) {
+    try {
+      this.names = fs.readdirSync(path.join(repoPath, dir));
+    } catch {
+      this.names = [];
+    }
+  }
+
+  has(file: string): boolean {
+    return fs.existsSync(path.join(this.repoPath, this.dir, file));
+  }
+
+  /** First of `files` that exists. */
+  first(...files: string[]): string | undefined {
+    return files.find(file => this.has(file));
+  }
+
+  withExtension(...extensions: string[]): string[] {
+    return this.names.filter(name => extensions.includes(path.extname(name)));
+  }
+
+  read(file: string): string {
+    try {
+      return fs.readFileSync(path.join(this.repoPath, this.dir, file), 'utf8');
+    } catch {
+      return '';
+    }
+  }
+
+  json(file: string): any {
+    try {
+      return JSON.parse(this.read(file));
+    } catch {
+      return undefined;
     }
   }
 
-  throw new Error('Unsupported language');
+  get isEmpty(): boolean {
+    return this.names.length === 0;
+  }
+
+  workspace(packageManager: string): Workspace | undefined {
+    return detectWorkspace(this.repoPath, this.dir, packageManager);
+  }
+}
+
+type StackRule = (project: ProjectDir) => StackCandidate[];
+
+/**
+ * Rule-based stack detection from lockfiles and manifests. Install and test commands are
+ * derived from what the project declares (`scripts.test`, tox and nox configuration,
+ * Makefile targets, runner configs) and only guessed when it declares nothing.
+ */
+export function detectStack(repoPath: string): StackDetection {
+  for (const dir of PROJECT_DIRS) {
+    const project = new ProjectDir(repoPath, dir);
+    if (project.isEmpty) continue;
+
+    const candidates = RULES
+      .flatMap(rule => rule(project))
+      .map(candidate => withMakeTarget(project, candidate))
+      .map(candidate => ({ ...candidate, fingerprint: { ...candidate.fingerprint, projectRoot: dir || undefined } }));
+    if (candidates.length > 0) {
+      return rankCandidates(candidates);
+    }
+  }
+  return { candidates: [], ambiguous: true };
+}
+
+function rankCandidates(candidates: StackCandidate[]): StackDetection {
+  const preferred = candidates.filter(c => !c.fallback);
+  const ranked = [
+    ...preferred.filter(c => c.confidence === 'high'),
+    ...preferred.filter(c => c.confidence === 'low'),
+    ...candidates.filter(c => c.fallback),
+  ];
+
+  const [best, second] = ranked;
+  const ambiguous = best.confidence === 'low' ||
+    (second !== undefined && !second.fallback && second.confidence === 'high' && second.fingerprint.language !== best.fingerprint.language);
+  return { candidates: ranked, ambiguous };
+}
+
+/**
+ * A `make test` target beats a guessed test command.
+ */
+function withMakeTarget(project: ProjectDir, candidate: StackCandidate): StackCandidate {
+  if (candidate.confidence === 'high') return candidate;
+  const makefile = project.first('Makefile', 'makefile', 'GNUmakefile');
+  const target = makefile && project.read(makefile).match(/^(tests?)\s*:(?!=)/m)?.[1];
+  if (!target) return candidate;
+  return {
+    ...candidate,
+    fingerprint: { ...candidate.fingerprint, testCommand: `make ${target}` },
+    evidence: [...candidate.evidence, makefile],
+    confidence: 'high',
+  };
+}
+
+const stack = (
+  fingerprint: Omit<RepoFingerprint, 'projectRoot'>,
+  evidence: (string | undefined)[],
+  confidence: StackCandidate['confidence'],
+  fallback?: boolean
+): StackCandidate => ({ fingerprint, evidence: evidence.filter((e): e is string => Boolean(e)), confidence, ...(fallback ? { fallback } : {}) });
+
+const nodeStack: StackRule = project => {
+  if (!project.has('package.json')) return [];
+  const pkg = project.json('package.json') || {};
+
+  const lockfiles: Record<string, string> = {
+    'pnpm-lock.yaml': 'pnpm',
+    'yarn.lock': 'yarn',
+    'bun.lockb': 'bun',
+    'bun.lock': 'bun',
+    'package-lock.json': 'npm',
+    'npm-shrinkwrap.json': 'npm',
+  };
+  const lockfile = Object.keys(lockfiles).find(file => project.has(file));
+  const declared = typeof pkg.packageManager === 'string' ? pkg.packageManager.split('@')[0] : undefined;
+  const manager = lockfile ? lockfiles[lockfile] : ['pnpm', 'yarn', 'bun', 'npm'].includes(declared) ? declared : 'npm';
+
+  const installs: Record<string, string> = {
+    npm: lockfile ? 'npm ci' : 'npm install',
+    pnpm: lockfile ? 'pnpm install --frozen-lockfile' : 'pnpm install',
+    yarn: !lockfile ? 'yarn install' : project.has('.yarnrc.yml') ? 'yarn install --immutable' : 'yarn install --frozen-lockfile',
+    bun: lockfile ? 'bun install --frozen-lockfile' : 'bun install',
+  };
+  const exec: Record<string, string> = { npm: 'npx', pnpm: 'pnpm exec', yarn: 'yarn', bun: 'bunx' };
+
+  const dependencies = { ...pkg.dependencies, ...pkg.devDependencies };
+  const workspace = project.workspace(manager);
+  const testedPackages = workspace?.packages.filter(p => p.testCommand) || [];
+  const script: string | undefined = pkg.scripts?.test;
+  let testCommand = manager === 'bun' ? 'bun run test' : `${manager} test`;
+  let evidence = 'package.json';
+  let confidence: StackCandidate['confidence'] = 'high';
+  if (!script || /no test specified/.test(script)) {
+    const runner = ['vitest', 'jest', 'mocha'].find(name => dependencies[name]);
+    if (testedPackages.length > 0) {
+      testCommand = packageTestCommand(workspace!.tool, testedPackages.map(p => ({ name: p.name, dir: path.posix.relative(project.dir, p.path) })));
+      evidence = 'package.json (workspaces)';
+    } else if (runner) {
+      testCommand = `${exec[manager]} ${runner === 'vitest' ? 'vitest run' : runner}`;
+      evidence = `package.json (${runner})`;
+    } else {
+      confidence = 'low';
+    }
+  }
+
+  const typescript = project.has('tsconfig.json') || Boolean(dependencies.typescript);
+  return [stack({
+    language: typescript ? 'typescript' : 'javascript',
+    runtime: 'node',
+    packageManager: manager,
+    installCommand: installs[manager],
+    testCommand,
+    dependencies: Object.keys(dependencies),
+    ...(workspace ? { workspace } : {}),
+  }, [evidence, lockfile], confidence)];
+};
+
+const pythonStack: StackRule = project => {
+  const manifest = project.first('pyproject.toml', 'setup.py', 'setup.cfg', 'requirements.txt', 'Pipfile');
+  if (!manifest) return [];
+  const pyproject = project.read('pyproject.toml');
+
+  // pip setup from the requirement files and the package itself
+  const requirementFiles = ['requirements.txt', 'requirements-dev.txt', 'requirements-test.txt', 'dev-requirements.txt', 'test-requirements.txt', 'requirements/dev.txt', 'requirements/test.txt']
+    .filter(file => project.has(file));
+  const extras = pyproject.match(/\[project\.optional-dependencies\]([\s\S]*?)(?:\n\[|$)/)?.[1].match(/^\s*(tests?|dev)\s*=/m)?.[1];
+  const pipSteps = [
+    ...(requirementFiles.length > 0 ? [`pip install ${requirementFiles.map(f => `-r ${f}`).join(' ')}`] : []),
+    ...(project.first('pyproject.toml', 'setup.py') ? [`pip install -e ${extras ? `".[${extras}]"` : '.'}`] : []),
+  ];
+  const pip = { packageManager: 'pip', installCommand: pipSteps.join(' && ') || 'pip install -e .', run: '' };
+
+  let manager = pip;
+  let managerEvidence: string | undefined;
+  if (project.has('poetry.lock') || /^\[tool\.poetry\]/m.test(pyproject)) {
+    manager = { packageManager: 'poetry', installCommand: 'poetry install', run: 'poetry run ' };
+    managerEvidence = project.has('poetry.lock') ? 'poetry.lock' : 'pyproject.toml';
+  } else if (project.has('uv.lock')) {
+    manager = { packageManager: 'uv', installCommand: 'uv sync', run: 'uv run ' };
+    managerEvidence = 'uv.lock';
+  } else if (project.has('Pipfile')) {
+    manager = { packageManager: 'pipenv', installCommand: 'pipenv install --dev', run: 'pipenv run ' };
+    managerEvidence = project.first('Pipfile.lock', 'Pipfile');
+  }
+
+  const tests = pythonTests(project, pyproject);
+  const candidates = [manager, ...(manager === pip ? [] : [pip])].map((setup, i) => {
+    // tox, nox and make bring their own environment handling
+    const testCommand = /^(tox|nox|make)\b/.test(tests.command) ? tests.command : `${setup.run}${tests.command}`;
+    return stack({
+      language: 'python',
+      runtime: 'python',
+      packageManager: setup.packageManager,
+      installCommand: setup.installCommand,
+      testCommand,
+    }, [i === 0 ? managerEvidence : undefined, manifest, tests.evidence], tests.confidence, i > 0);
+  });
+  return candidates;
+};
+
+function pythonTests(project: ProjectDir, pyproject: string): { command: string; evidence?: string; confidence: StackCandidate['confidence'] } {
+  const toxConfig = project.has('tox.ini') ? project.read('tox.ini') : '';
+  const toxCommands = toxConfig.match(/^\[testenv\][\s\S]*?^commands\s*=\s*\n?\s*(.+)$/m)?.[1].trim();
+  if (toxCommands) {
+    return { command: toxCommands.replace(/\s*\{posargs[^}]*\}/g, ''), evidence: 'tox.ini', confidence: 'high' };
+  }
+
+  const noxSession = project.read('noxfile.py').match(/@nox\.session[^\n]*\n\s*def (tests?)\s*\(/)?.[1];
+  if (noxSession) {
+    return { command: `nox -s ${noxSession}`, evidence: 'noxfile.py', confidence: 'high' };
+  }
+
+  const pytestConfig = project.first('pytest.ini', 'conftest.py') ||
+    (/^\[tool\.pytest\.ini_options\]/m.test(pyproject) ? 'pyproject.toml' : undefined) ||
+    (/^\[tool:pytest\]/m.test(project.read('setup.cfg')) ? 'setup.cfg' : undefined) ||
+    (/^\[pytest\]/m.test(toxConfig) ? 'tox.ini' : undefined) ||
+    (/\bpytest\b/.test(pyproject + project.read('requirements-dev.txt') + project.read('requirements.txt') + project.read('Pipfile')) ? 'pytest dependency' : undefined);
+  if (pytestConfig) {
+    return { command: 'pytest', evidence: pytestConfig, confidence: 'high' };
+  }
+  return { command: 'python -m pytest', confidence: 'low' };
+}
+
+const goStack: StackRule = project => {
+  const workspace = project.workspace('go');
+  if (!workspace) {
+    if (!project.has('go.mod')) return [];
+    return [stack({ language: 'go', runtime: 'go', packageManager: 'go', installCommand: 'go mod download', testCommand: 'go test ./...' }, ['go.mod'], 'high')];
+  }
+
+  // `./...` stops at module boundaries, so every module of the workspace is listed
+  const patterns = workspace.packages
+    .map(p => path.posix.relative(project.dir, p.path))
+    .map(dir => (dir ? `./${dir}/...` : './...'))
+    .join(' ');
+  return [stack({
+    language: 'go',
+    runtime: 'go',
+    packageManager: 'go',
+    installCommand: `go list -deps -test ${patterns} > /dev/null`,
+    testCommand: `go test ${patterns}`,
+    workspace,
+  }, ['go.work'], 'high')];
+};
+
+const rustStack: StackRule = project => {
+  if (!project.has('Cargo.toml')) return [];
+  const workspace = project.workspace('cargo');
+  return [stack({
+    language: 'rust',
+    runtime: 'rust',
+    packageManager: 'cargo',
+    installCommand: 'cargo fetch',
+    testCommand: workspace ? 'cargo test --workspace' : 'cargo test',
+    ...(workspace ? { workspace } : {}),
+  }, ['Cargo.toml', project.first('Cargo.lock')], 'high')];
+};
+
+const jvmStack: StackRule = project => {
+  const language = project.has('src/main/kotlin') ? 'kotlin' : 'java';
+  if (project.has('pom.xml')) {
+    const mvn = project.has('mvnw') ? './mvnw' : 'mvn';
+    return [stack({ language, runtime: 'java', packageManager: 'maven', installCommand: `${mvn} -B -DskipTests dependency:resolve`, testCommand: `${mvn} -B test` }, ['pom.xml', project.first('mvnw')], 'high')];
+  }
+  const buildFile = project.first('build.gradle.kts', 'build.gradle');
+  if (buildFile) {
+    const gradle = project.has('gradlew') ? './gradlew' : 'gradle';
+    return [stack({ language, runtime: 'java', packageManager: 'gradle', installCommand: `${gradle} --no-daemon testClasses`, testCommand: `${gradle} --no-daemon test` }, [buildFile, project.first('gradlew')], 'high')];
+  }
+  return [];
+};
+
+const dotnetStack: StackRule = project => {
+  const [manifest] = [...project.withExtension('.sln'), ...project.withExtension('.csproj', '.fsproj')];
+  if (!manifest) return [];
+  const language = project.withExtension('.fsproj').length > 0 ? 'fsharp' : 'csharp';
+  return [stack({ language, runtime: 'dotnet', packageManager: 'dotnet', installCommand: 'dotnet restore', testCommand: 'dotnet test' }, [manifest], 'high')];
+};
+
+const phpStack: StackRule = project => {
+  if (!project.has('composer.json')) return [];
+  const composer = project.json('composer.json') || {};
+  const install = 'composer install --no-interaction';
+
+  if (composer.scripts?.test) {
+    return [stack({ language: 'php', runtime: 'php', packageManager: 'composer', installCommand: install, testCommand: 'composer test' }, ['composer.json'], 'high')];
+  }
+  const pest = Boolean(composer['require-dev']?.['pestphp/pest']);
+  const phpunitConfig = project.first('phpunit.xml', 'phpunit.xml.dist');
+  return [stack({
+    language: 'php',
+    runtime: 'php',
+    packageManager: 'composer',
+    installCommand: install,
+    testCommand: pest ? 'vendor/bin/pest' : 'vendor/bin/phpunit',
+  }, ['composer.json', phpunitConfig], pest || phpunitConfig ? 'high' : 'low')];
+};
+
+const rubyStack: StackRule = project => {
+  if (!project.has('Gemfile')) return [];
+  const rspec = project.first('.rspec', 'spec') || (/['"]rspec(-rails)?['"]/.test(project.read('Gemfile')) ? 'Gemfile' : undefined);
+  const rakefile = project.first('Rakefile');
+  return [stack({
+    language: 'ruby',
+    runtime: 'ruby',
+    packageManager: 'bundler',
+    installCommand: 'bundle install',
+    testCommand: rspec ? 'bundle exec rspec' : 'bundle exec rake test',
+  }, ['Gemfile', project.first('Gemfile.lock'), rspec || rakefile], rspec || rakefile ? 'high' : 'low')];
+};
+
+const elixirStack: StackRule = project => {
+  if (!project.has('mix.exs')) return [];
+  return [stack({ language: 'elixir', runtime: 'elixir', packageManager: 'mix', installCommand: 'mix deps.get', testCommand: 'mix test' }, ['mix.exs', project.first('mix.lock')], 'high')];
+};
+
+const RULES: StackRule[] = [nodeStack, pythonStack, goStack, rustStack, jvmStack, dotnetStack, phpStack, rubyStack, elixirStack];
+
+/**
+ * Executables the fingerprint's install and test commands start with that the sandbox
+ * does not have.
+ */
+export async function missingTools(sandbox: Sandbox, fingerprint: RepoFingerprint): Promise<string[]> {
+  const tools = new Set([...commandTools(fingerprint.installCommand), ...commandTools(fingerprint.testCommand)]);
+  const missing: string[] = [];
+  for (const tool of tools) {
+    const result = await sandbox.runCommand(`command -v ${tool}`);
+    if (result.exitCode !== 0) missing.push(tool);
+  }
+  return missing;
+}
+
+function commandTools(command: string): string[] {
+  return command
+    .split(/&&|\|\||[;|]/)
+    .map(segment => segment.trim().split(/\s+/).find(word => !/^\w+=/.test(word)))
+    .filter((tool): tool is string => Boolean(tool) && !SHELL_BUILTINS.has(tool!) && /^[\w./+-]+$/.test(tool!));
 }
@@ -0,0 +1,25 @@
+import { Sandbox, SandboxBackend } from '../types';
+import { config } from '../utils/config';
+import { DockerSandbox } from './docker';
+import { E2BSandbox } from './e2b';
+import { LocalSandbox } from './local';
+
+export const SANDBOX_BACKENDS: SandboxBackend[] = ['e2b', 'docker', 'local'];
+
+/**
+ * Creates an unprovisioned sandbox for the given backend (default: `OSS_DEV_SANDBOX`).
+ */
+export function createSandbox(backend: SandboxBackend = config.sandbox): Sandbox {
+  switch (backend) {
+    case 'e2b':
+      return new E2BSandbox();
+    case 'docker':
+      return new DockerSandbox();
+    case 'local':
+      return new LocalSandbox();
+    default:
+      throw new Error(`Unknown sandbox backend "${backend}". Expected one of: ${SANDBOX_BACKENDS.join(', ')}`);
+  }
+}
+
+export { E2BSandbox, DockerSandbox, LocalSandbox };
@@ -0,0 +1,118 @@
+import { execa } from 'execa';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { CommandResult, RepoFingerprint, Sandbox, SandboxBackend, TestResult } from '../types';
+import { ChangeTarget, createLocalTarget } from '../tools/changes';
+import { logger } from '../utils/logger';
+
+/**
+ * Runs the repository on the host: a git worktree of the local checkout (or a fresh clone)
+ * in a temporary directory, with commands executed as child processes. Nothing is isolated
+ * from the host, so this is meant for trusted repositories and CI runners.
+ */
+export class LocalSandbox implements Sandbox {
+  readonly backend: SandboxBackend = 'local';
+  protected rootDir: string | null = null;
+  protected workingDir = '';
+  private worktreeOf: string | null = null;
+  private files: ChangeTarget | null = null;
+
+  async provision(githubUrl: string, fingerprint: RepoFingerprint, localPath?: string): Promise<void> {
+    const rootDir = await fs.mkdtemp(path.join(os.tmpdir(), 'oss-dev-sandbox-'));
+    this.rootDir = rootDir;
+
+    if (localPath) {
+      logger.info(`Creating worktree of ${localPath} in ${rootDir}`);
+      await execa('git', ['worktree', 'add', '--detach', rootDir, 'HEAD'], { cwd: localPath });
+      this.worktreeOf = localPath;
+    } else {
+      logger.info(`Cloning ${githubUrl} into ${rootDir}`);
+      await execa('git', ['clone', '--depth', '1', githubUrl, rootDir]);
+    }
+
+    this.files = createLocalTarget(rootDir);
+    this.workingDir = fingerprint.projectRoot ? path.join(rootDir, fingerprint.projectRoot) : rootDir;
+
+    await this.prepare(fingerprint);
+
+    logger.info(`Installing dependencies in ${this.workingDir}...`);
+    const install = await this.runCommand(fingerprint.installCommand);
+    if (install.exitCode !== 0) {
+      logger.warn(`Warning: Installation command failed: ${install.stderr || install.stdout}`);
+    }
+
+    logger.success('Sandbox environment is ready');
+  }
+
+  /**
+   * Hook between checkout and dependency installation for backends that need a runtime.
+   */
+  protected async prepare(_fingerprint: RepoFingerprint): Promise<void> {
+    // The host toolchain is used as is
+  }
+
+  async exists(filePath: string): Promise<boolean> {
+    return this.target().exists(filePath);
+  }
+
+  async readFile(filePath: string): Promise<string> {
+    return this.target().readFile(filePath);
+  }
+
+  async writeFile(filePath: string, content: string): Promise<void> {
+    return this.target().writeFile(filePath, content);
+  }
+
+  async deleteFile(filePath: string): Promise<void> {
+    return this.target().deleteFile(filePath);
+  }
+
+  async renameFile(from: string, to: string): Promise<void> {
+    return this.target().renameFile(from, to);
+  }
+
+  async runCommand(command: string): Promise<CommandResult> {
+    if (!this.rootDir) throw new Error('Sandbox not initialized');
+
+    const start = Date.now();
+    const result = await execa(command, { shell: true, cwd: this.workingDir, reject: false });
+    return {
+      stdout: result.stdout,
+      stderr: result.stderr,
+      exitCode: result.exitCode ?? 1,
+      duration: Date.now() - start,
+    };
+  }
+
+  async runTests(testCommand: string): Promise<TestResult> {
+    const result = await this.runCommand(testCommand);
+
+    return {
+      passed: result.exitCode === 0,
+      output: result.stdout,
+      error: result.stderr,
+      exitCode: result.exitCode,
+      duration: result.duration,
+    };
+  }
+
+  async cleanup(): Promise<void> {
+    if (!this.rootDir) return;
+
+    const rootDir = this.rootDir;
+    this.rootDir = null;
+    this.files = null;
+
+    if (this.worktreeOf) {
+      await execa('git', ['worktree', 'remove', '--force', rootDir], { cwd: this.worktreeOf, reject: false });
+      this.worktreeOf = null;
+    }
+    await fs.rm(rootDir, { recursive: true, force: true });
+  }
+
+  private target(): ChangeTarget {
+    if (!this.files) throw new Error('Sandbox not initialized');
+    return this.files;
+  }
+}
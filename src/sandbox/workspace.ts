@@ -0,0 +1,257 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { RepoFingerprint, Workspace, WorkspacePackage } from '../types';
+
+/** Directories never searched for workspace members. */
+const SKIPPED_DIRS = new Set(['node_modules', 'target', 'vendor', 'dist', 'build']);
+/** Workspace member patterns are matched against directories up to this depth. */
+const MAX_MEMBER_DEPTH = 5;
+
+interface PackageDir {
+  name: string;
+  /** Directory relative to the project root. */
+  dir: string;
+}
+
+/**
+ * Packages of the workspace rooted at `projectDir` (relative to `repoPath`): npm, yarn and bun
+ * `workspaces`, `pnpm-workspace.yaml`, Go `go.work` and Cargo `[workspace]` members. Undefined
+ * when the project is not a workspace.
+ */
+export function detectWorkspace(repoPath: string, projectDir: string, packageManager: string): Workspace | undefined {
+  const root = path.join(repoPath, projectDir);
+  let workspace: Workspace | undefined;
+  if (['npm', 'pnpm', 'yarn', 'bun'].includes(packageManager)) {
+    workspace = nodeWorkspace(root, packageManager as Workspace['tool']);
+  } else if (packageManager === 'go') {
+    workspace = goWorkspace(root);
+  } else if (packageManager === 'cargo') {
+    workspace = cargoWorkspace(root);
+  }
+  if (!workspace || workspace.packages.length === 0) return undefined;
+
+  // Stored relative to the repository root, like the paths of changed files
+  return {
+    ...workspace,
+    packages: workspace.packages.map(p => ({ ...p, path: path.posix.join(projectDir, p.path) })),
+  };
+}
+
+/**
+ * Command that runs the tests of `packages` from the project root, using the workspace tool's
+ * own package selection where it has one.
+ */
+export function packageTestCommand(tool: Workspace['tool'], packages: PackageDir[]): string {
+  const names = packages.map(p => p.name);
+  switch (tool) {
+    case 'npm':
+      return `npm test ${names.map(name => `--workspace=${name}`).join(' ')}`;
+    case 'pnpm':
+      return `pnpm ${names.map(name => `--filter ${name}`).join(' ')} test`;
+    case 'cargo':
+      return `cargo test ${names.map(name => `-p ${name}`).join(' ')}`;
+    case 'go':
+      return `go test ${packages.map(p => (p.dir ? `./${p.dir}/...` : './...')).join(' ')}`;
+    case 'yarn':
+      return names.map(name => `yarn workspace ${name} test`).join(' && ');
+    case 'bun':
+      return names.map(name => `bun run --filter ${name} test`).join(' && ');
+  }
+}
+
+/**
+ * Packages that own `files` (relative to the repository root) and every package depending on
+ * them, directly or through others. Undefined when a file belongs to no package, e.g. a shared
+ * config at the workspace root, since any package may then be affected.
+ */
+export function affectedPackages(workspace: Workspace, files: string[]): WorkspacePackage[] | undefined {
+  const affected = new Set<WorkspacePackage>();
+  for (const file of files) {
+    const owner = workspace.packages
+      .filter(p => !p.path || file === p.path || file.startsWith(`${p.path}/`))
+      .sort((a, b) => b.path.length - a.path.length)[0];
+    if (!owner) return undefined;
+    affected.add(owner);
+  }
+
+  const queue = Array.from(affected);
+  while (queue.length > 0) {
+    const changed = queue.shift()!;
+    for (const dependent of workspace.packages) {
+      if (!affected.has(dependent) && dependent.dependencies.includes(changed.name)) {
+        affected.add(dependent);
+        queue.push(dependent);
+      }
+    }
+  }
+  return workspace.packages.filter(p => affected.has(p));
+}
+
+/**
+ * Test command scoped to the workspace packages a change touches. Undefined when the full
+ * suite has to run: the project is not a workspace, the change reaches outside its packages,
+ * or none of the affected packages has tests.
+ */
+export function scopedTestCommand(fingerprint: RepoFingerprint, files: string[]): { command: string; packages: string[] } | undefined {
+  if (!fingerprint.workspace) return undefined;
+  const tested = affectedPackages(fingerprint.workspace, files)?.filter(p => p.testCommand);
+  if (!tested?.length) return undefined;
+
+  const projectRoot = fingerprint.projectRoot || '';
+  const command = packageTestCommand(
+    fingerprint.workspace.tool,
+    tested.map(p => ({ name: p.name, dir: path.posix.relative(projectRoot, p.path) }))
+  );
+  return { command, packages: tested.map(p => p.name) };
+}
+
+function nodeWorkspace(root: string, tool: Workspace['tool']): Workspace {
+  const manifest = readJson(path.join(root, 'package.json')) || {};
+  const pnpmConfig = tool === 'pnpm' ? readText(path.join(root, 'pnpm-workspace.yaml')) : '';
+  const patterns: string[] = pnpmConfig
+    ? pnpmPackagePatterns(pnpmConfig)
+    : Array.isArray(manifest.workspaces) ? manifest.workspaces : manifest.workspaces?.packages || [];
+
+  const members = expandMembers(root, patterns, 'package.json').map(dir => ({ dir, manifest: readJson(path.join(root, dir, 'package.json')) || {} }));
+  const names = new Set(members.map(m => m.manifest.name).filter(Boolean));
+
+  const packages = members.map(({ dir, manifest: pkg }): WorkspacePackage => {
+    const name: string = pkg.name || dir;
+    const script: string | undefined = pkg.scripts?.test;
+    const dependencies = Object.keys({ ...pkg.dependencies, ...pkg.devDependencies, ...pkg.peerDependencies });
+    return {
+      name,
+      path: dir,
+      ...(script && !/no test specified/.test(script) ? { testCommand: packageTestCommand(tool, [{ name, dir }]) } : {}),
+      dependencies: dependencies.filter(dep => names.has(dep) && dep !== name),
+    };
+  });
+  return { tool, packages };
+}
+
+function pnpmPackagePatterns(yaml: string): string[] {
+  const block = yaml.match(/^packages:[ \t]*\n((?:[ \t]+.*\n?|[ \t]*\n)*)/m)?.[1] || '';
+  return Array.from(block.matchAll(/^[ \t]+-[ \t]*['"]?([^'"\n#]+?)['"]?[ \t]*(?:#.*)?$/gm), m => m[1]);
+}
+
+function goWorkspace(root: string): Workspace | undefined {
+  const goWork = readText(path.join(root, 'go.work')).replace(/\/\/.*$/gm, '');
+  if (!goWork) return undefined;
+
+  const dirs = [
+    ...Array.from(goWork.matchAll(/^use\s*\(([\s\S]*?)\)/gm), m => m[1].split('\n')).flat(),
+    ...Array.from(goWork.matchAll(/^use\s+([^\s(]+)\s*$/gm), m => m[1]),
+  ]
+    .map(dir => dir.trim())
+    .filter(Boolean)
+    .map(dir => dir.replace(/^\.(\/|$)/, '').replace(/\/$/, ''))
+    .filter((dir, i, all) => all.indexOf(dir) === i);
+
+  const modules = dirs
+    .map(dir => ({ dir, goMod: readText(path.join(root, dir, 'go.mod')) }))
+    .filter(m => m.goMod)
+    .map(m => ({ ...m, name: m.goMod.match(/^module\s+(\S+)/m)?.[1] || m.dir }));
+
+  return {
+    tool: 'go',
+    packages: modules.map(m => ({
+      name: m.name,
+      path: m.dir,
+      testCommand: packageTestCommand('go', [m]),
+      dependencies: modules.filter(other => other !== m && containsWord(m.goMod, other.name)).map(other => other.name),
+    })),
+  };
+}
+
+function cargoWorkspace(root: string): Workspace | undefined {
+  const cargoToml = readText(path.join(root, 'Cargo.toml'));
+  const section = cargoToml.match(/^\[workspace\][ \t]*\n([\s\S]*?)(?=^\[[^\]]+\][ \t]*$|(?![\s\S]))/m)?.[1];
+  if (section === undefined) return undefined;
+
+  const list = (key: string) => Array.from(section.match(new RegExp(`^${key}\\s*=\\s*\\[([\\s\\S]*?)\\]`, 'm'))?.[1].matchAll(/"([^"]+)"/g) || [], m => m[1]);
+  const dirs = expandMembers(root, [...list('members'), ...list('exclude').map(dir => `!${dir}`)], 'Cargo.toml');
+  // A root with its own [package] is a member too
+  if (/^\[package\]/m.test(cargoToml)) dirs.unshift('');
+
+  const crates = dirs
+    .map(dir => ({ dir, manifest: readText(path.join(root, dir, 'Cargo.toml')) }))
+    .map(c => ({ ...c, name: c.manifest.match(/^\[package\][\s\S]*?^name\s*=\s*"([^"]+)"/m)?.[1] || c.dir }));
+
+  const dependsOn = (manifest: string, name: string) =>
+    new RegExp(`^(${escapeRegExp(name)}\\s*=|\\[(dev-|build-)?dependencies\\.${escapeRegExp(name)}\\])`, 'm').test(manifest);
+  return {
+    tool: 'cargo',
+    packages: crates.map(c => ({
+      name: c.name,
+      path: c.dir,
+      testCommand: packageTestCommand('cargo', [c]),
+      dependencies: crates.filter(other => other !== c && dependsOn(c.manifest, other.name)).map(other => other.name),
+    })),
+  };
+}
+
+/**
+ * Directories under `root` matching the workspace member globs (`*`, `**`, `!` exclusions)
+ * that contain `manifest`.
+ */
+function expandMembers(root: string, patterns: string[], manifest: string): string[] {
+  const include = patterns.filter(p => !p.startsWith('!')).map(globToRegExp);
+  const exclude = patterns.filter(p => p.startsWith('!')).map(p => globToRegExp(p.slice(1)));
+  const found: string[] = [];
+
+  const walk = (dir: string, depth: number) => {
+    if (dir && include.some(r => r.test(dir)) && !exclude.some(r => r.test(dir)) && fs.existsSync(path.join(root, dir, manifest))) {
+      found.push(dir);
+    }
+    if (depth >= MAX_MEMBER_DEPTH) return;
+
+    let entries: fs.Dirent[];
+    try {
+      entries = fs.readdirSync(path.join(root, dir), { withFileTypes: true });
+    } catch {
+      return;
+    }
+    for (const entry of entries) {
+      if (entry.isDirectory() && !entry.name.startsWith('.') && !SKIPPED_DIRS.has(entry.name)) {
+        walk(dir ? `${dir}/${entry.name}` : entry.name, depth + 1);
+      }
+    }
+  };
+
+  if (include.length > 0) walk('', 0);
+  return found.sort();
+}
+
+function globToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .replace(/^\.\//, '')
+    .replace(/\/+$/, '')
+    .split('/')
+    .map(segment => (segment === '**' ? '.*' : escapeRegExp(segment).replace(/\\\*/g, '[^/]*').replace(/\\\?/g, '[^/]')))
+    .join('/');
+  return new RegExp(`^${source}$`);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function containsWord(text: string, word: string): boolean {
+  return new RegExp(`(^|\\s)${escapeRegExp(word)}(\\s|$)`, 'm').test(text);
+}
+
+function readText(file: string): string {
+  try {
+    return fs.readFileSync(file, 'utf8');
+  } catch {
+    return '';
+  }
+}
+
+function readJson(file: string): any {
+  try {
+    return JSON.parse(readText(file));
+  } catch {
+    return undefined;
+  }
+}
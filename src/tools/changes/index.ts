@@ -0,0 +1,265 @@
+import fs from 'fs/promises';
+import { existsSync } from 'fs';
+import path from 'path';
+import { ChangeSet, FileChange } from '../../types';
+import { logger } from '../../utils/logger';
+import { applyHunks, applyUnifiedDiff, assertScopedChange, PatchConflictError, ScopeGuardOptions, DEFAULT_SCOPE_GUARD } from './patch';
+
+export { PatchConflictError, renderHunks } from './patch';
+export { DEFAULT_CHANGE_POLICY, enforceChangePolicy, PolicyViolationError, resolveChangePolicy } from './policy';
+
+/**
+ * Minimal file-system surface a change set can be applied to (sandbox or local checkout).
+ * All paths are relative to the repository root.
+ */
+export interface ChangeTarget {
+  exists(filePath: string): Promise<boolean>;
+  readFile(filePath: string): Promise<string>;
+  writeFile(filePath: string, content: string): Promise<void>;
+  deleteFile(filePath: string): Promise<void>;
+  renameFile(from: string, to: string): Promise<void>;
+}
+
+/**
+ * Change target backed by a checkout on the local disk.
+ */
+export function createLocalTarget(repoPath: string): ChangeTarget {
+  const resolve = (file: string) => path.join(repoPath, file);
+  return {
+    exists: async file => existsSync(resolve(file)),
+    readFile: file => fs.readFile(resolve(file), 'utf8'),
+    writeFile: async (file, content) => {
+      await fs.mkdir(path.dirname(resolve(file)), { recursive: true });
+      await fs.writeFile(resolve(file), content);
+    },
+    deleteFile: file => fs.unlink(resolve(file)),
+    renameFile: async (from, to) => {
+      await fs.mkdir(path.dirname(resolve(to)), { recursive: true });
+      await fs.rename(resolve(from), resolve(to));
+    },
+  };
+}
+
+export class ChangeSetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ChangeSetError';
+  }
+}
+
+/**
+ * Normalizes repository-relative paths and rejects change sets that are malformed or
+ * would escape the repository.
+ */
+export function normalizeChangeSet(raw: ChangeSet): ChangeSet {
+  if (!raw.changes || raw.changes.length === 0) {
+    throw new ChangeSetError('Change set contains no file changes.');
+  }
+
+  const seen = new Set<string>();
+  const claim = (file: string) => {
+    if (seen.has(file)) {
+      throw new ChangeSetError(`Path "${file}" is modified more than once in the change set.`);
+    }
+    seen.add(file);
+  };
+
+  const changes = raw.changes.map((change): FileChange => {
+    const file = normalizePath(change.file);
+    claim(file);
+
+    switch (change.kind) {
+      case 'edit':
+        if (change.hunks && change.hunks.length > 0) {
+          return { kind: 'edit', file, hunks: change.hunks };
+        }
+        if (change.diff && change.diff.trim()) {
+          return { kind: 'edit', file, diff: change.diff };
+        }
+        // Whole-file rewrites are what hunks exist to prevent; small files would slip past the scope guard
+        throw new ChangeSetError(typeof change.content === 'string'
+          ? `edit of "${file}" replaces the whole file; send search/replace hunks instead.`
+          : `edit of "${file}" has neither hunks nor a diff.`);
+      case 'create':
+        if (typeof change.content !== 'string') {
+          throw new ChangeSetError(`create of "${file}" is missing file content.`);
+        }
+        return { kind: 'create', file, content: change.content };
+      case 'delete':
+        return { kind: 'delete', file };
+      case 'rename': {
+        if (!change.newFile) {
+          throw new ChangeSetError(`rename of "${file}" is missing the destination path.`);
+        }
+        const newFile = normalizePath(change.newFile);
+        claim(newFile);
+        return typeof change.content === 'string'
+          ? { kind: 'rename', file, newFile, content: change.content }
+          : { kind: 'rename', file, newFile };
+      }
+      default:
+        throw new ChangeSetError(`Unknown change kind "${(change as FileChange).kind}" for "${file}".`);
+    }
+  });
+
+  return { changes, explanation: raw.explanation || '' };
+}
+
+/**
+ * Returns every path the change set touches, including both sides of a rename.
+ */
+export function changedPaths(changeSet: ChangeSet): string[] {
+  return changeSet.changes.flatMap(c => (c.kind === 'rename' && c.newFile ? [c.file, c.newFile] : [c.file]));
+}
+
+/**
+ * One-line human readable summary, e.g. "edit src/a.ts, create src/b.ts".
+ */
+export function describeChangeSet(changeSet: ChangeSet): string {
+  return changeSet.changes
+    .map(c => (c.kind === 'rename' ? `rename ${c.file} -> ${c.newFile}` : `${c.kind} ${c.file}`))
+    .join(', ');
+}
+
+/**
+ * Turns hunk- and diff-based edits into full file contents by patching the files currently
+ * on `target`, and checks every edit against the scope guard. Every conflict across the change
+ * set is collected so the engineer can fix them all in the next attempt.
+ */
+export async function resolveChangeSet(
+  target: ChangeTarget,
+  changeSet: ChangeSet,
+  guard: ScopeGuardOptions = DEFAULT_SCOPE_GUARD
+): Promise<ChangeSet> {
+  const conflicts: PatchConflictError[] = [];
+
+  const changes = await Promise.all(changeSet.changes.map(async (change): Promise<FileChange> => {
+    if (change.kind !== 'edit') return change;
+
+    try {
+      if (!(await target.exists(change.file))) {
+        throw new PatchConflictError(change.file, ['file does not exist; use "create" for new files']);
+      }
+      const original = await target.readFile(change.file);
+      const content = change.hunks
+        ? applyHunks(change.file, original, change.hunks)
+        : change.diff
+          ? applyUnifiedDiff(change.file, original, change.diff)
+          : change.content!;
+      assertScopedChange(change.file, original, content, guard);
+      return { ...change, content };
+    } catch (error: any) {
+      if (!(error instanceof PatchConflictError)) throw error;
+      conflicts.push(error);
+      return change;
+    }
+  }));
+
+  if (conflicts.length > 0) {
+    throw new ChangeSetError(conflicts.map(c => c.message).join('\n'));
+  }
+  return { ...changeSet, changes };
+}
+
+/**
+ * Previous content of every path a change set touched; `null` marks a path that did not exist.
+ */
+export type ChangeSetSnapshot = Record<string, string | null>;
+
+/**
+ * Applies every change in order. If any step fails, all paths already touched are restored
+ * to their previous state so the target is never left half-modified. The returned snapshot
+ * can later undo the whole change set with `restoreSnapshot`.
+ */
+export async function applyChangeSet(target: ChangeTarget, changeSet: ChangeSet): Promise<ChangeSetSnapshot> {
+  const snapshot: ChangeSetSnapshot = {};
+
+  const capture = async (file: string) => {
+    if (file in snapshot) return;
+    snapshot[file] = (await target.exists(file)) ? await target.readFile(file) : null;
+  };
+
+  try {
+    for (const change of changeSet.changes) {
+      await capture(change.file);
+      if (change.newFile) await capture(change.newFile);
+      await applyChange(target, change);
+    }
+  } catch (error: any) {
+    logger.warn(`Applying change set failed (${error.message}). Rolling back ${Object.keys(snapshot).length} path(s)...`);
+    await restoreSnapshot(target, snapshot);
+    throw new ChangeSetError(`Failed to apply change set: ${error.message}`);
+  }
+
+  return snapshot;
+}
+
+/**
+ * Puts every path recorded in `snapshot` back into its previous state.
+ */
+export async function restoreSnapshot(target: ChangeTarget, snapshot: ChangeSetSnapshot): Promise<void> {
+  for (const [file, content] of Object.entries(snapshot).reverse()) {
+    try {
+      if (content === null) {
+        if (await target.exists(file)) await target.deleteFile(file);
+      } else {
+        await target.writeFile(file, content);
+      }
+    } catch (error: any) {
+      logger.error(`Rollback of ${file} failed: ${error.message}`);
+    }
+  }
+}
+
+async function applyChange(target: ChangeTarget, change: FileChange): Promise<void> {
+  switch (change.kind) {
+    case 'edit':
+      if (typeof change.content !== 'string') {
+        throw new ChangeSetError(`Cannot edit "${change.file}": hunks have not been resolved.`);
+      }
+      if (!(await target.exists(change.file))) {
+        throw new ChangeSetError(`Cannot edit "${change.file}": file does not exist.`);
+      }
+      await target.writeFile(change.file, change.content!);
+      return;
+    case 'create':
+      if (await target.exists(change.file)) {
+        throw new ChangeSetError(`Cannot create "${change.file}": file already exists.`);
+      }
+      await target.writeFile(change.file, change.content!);
+      return;
+    case 'delete':
+      if (!(await target.exists(change.file))) {
+        throw new ChangeSetError(`Cannot delete "${change.file}": file does not exist.`);
+      }
+      await target.deleteFile(change.file);
+      return;
+    case 'rename':
+      if (!(await target.exists(change.file))) {
+        throw new ChangeSetError(`Cannot rename "${change.file}": file does not exist.`);
+      }
+      if (await target.exists(change.newFile!)) {
+        throw new ChangeSetError(`Cannot rename to "${change.newFile}": destination already exists.`);
+      }
+      await target.renameFile(change.file, change.newFile!);
+      if (typeof change.content === 'string') {
+        await target.writeFile(change.newFile!, change.content);
+      }
+      return;
+  }
+}
+
+/**
+ * `file` relative to the repository root with `./` and backslashes removed; absolute paths and
+ * paths that climb out of the repository are rejected.
+ */
+export function normalizePath(file: string): string {
+  if (!file || !file.trim()) {
+    throw new ChangeSetError('Change set contains an empty file path.');
+  }
+  const normalized = path.posix.normalize(file.trim().replace(/\\/g, '/')).replace(/^\.\//, '');
+  if (path.posix.isAbsolute(normalized) || normalized === '..' || normalized.startsWith('../')) {
+    throw new ChangeSetError(`Path "${file}" must be relative to the repository root.`);
+  }
+  return normalized;
+}
@@ -0,0 +1,294 @@
+import { EditHunk } from '../../types';
+
+/**
+ * How far (in lines) a unified diff hunk may drift from its recorded position and still apply.
+ */
+const MAX_LINE_DRIFT = 60;
+
+export interface ScopeGuardOptions {
+  /** Largest share of an existing file's lines that a single edit may change. */
+  maxChangedRatio: number;
+  /** Files shorter than this are exempt from the ratio check. */
+  minLinesForRatio: number;
+}
+
+export const DEFAULT_SCOPE_GUARD: ScopeGuardOptions = {
+  maxChangedRatio: 0.5,
+  minLinesForRatio: 40,
+};
+
+export class PatchConflictError extends Error {
+  constructor(public readonly file: string, public readonly conflicts: string[]) {
+    super(`Patch for ${file} could not be applied:\n${conflicts.map(c => `  - ${c}`).join('\n')}`);
+    this.name = 'PatchConflictError';
+  }
+}
+
+interface TextLayout {
+  bom: string;
+  /** The ending most lines use, given to lines an edit adds. */
+  eol: string;
+  trailingNewline: boolean;
+  lines: string[];
+  /** The ending of each line, so files that mix them keep every untouched line as it was. */
+  endings: string[];
+}
+
+interface LineHunk {
+  label: string;
+  oldLines: string[];
+  newLines: string[];
+  /** Zero-based line where the hunk is expected to start, if known. */
+  hint?: number;
+}
+
+/**
+ * Applies search/replace hunks to `original`, preserving its BOM, line endings and trailing newline.
+ * Every hunk is matched against the original text, never against what an earlier hunk wrote.
+ */
+export function applyHunks(file: string, original: string, hunks: EditHunk[]): string {
+  const lineHunks = hunks.map((h, i): LineHunk => ({
+    label: `hunk ${i + 1}`,
+    oldLines: splitLines(h.search),
+    newLines: splitLines(h.replace),
+  }));
+  return applyLineHunks(file, original, lineHunks);
+}
+
+/**
+ * Applies a unified diff (the `@@` hunks of a single file) to `original`.
+ * Hunks may have drifted by a few lines from the positions recorded in their headers.
+ */
+export function applyUnifiedDiff(file: string, original: string, diff: string): string {
+  return applyLineHunks(file, original, parseUnifiedDiff(file, diff));
+}
+
+/**
+ * Rejects edits that rewrite far more of a file than a targeted fix should.
+ */
+export function assertScopedChange(
+  file: string,
+  original: string,
+  updated: string,
+  options: ScopeGuardOptions = DEFAULT_SCOPE_GUARD
+): void {
+  const before = parseLayout(original).lines;
+  if (before.length < options.minLinesForRatio) return;
+
+  const { added, removed } = countChangedLines(original, updated);
+  const ratio = Math.max(added, removed) / before.length;
+
+  if (ratio > options.maxChangedRatio) {
+    throw new PatchConflictError(file, [
+      `edit changes ${Math.round(ratio * 100)}% of the file's ${before.length} lines ` +
+      `(limit ${Math.round(options.maxChangedRatio * 100)}%). Only modify the lines required by the fix.`,
+    ]);
+  }
+}
+
+/**
+ * Lines only in `updated` (added) and only in `original` (removed), ignoring their order.
+ */
+export function countChangedLines(original: string, updated: string): { added: number; removed: number } {
+  const remaining = new Map<string, number>();
+  for (const line of original ? parseLayout(original).lines : []) remaining.set(line, (remaining.get(line) || 0) + 1);
+
+  let added = 0;
+  for (const line of updated ? parseLayout(updated).lines : []) {
+    const count = remaining.get(line) || 0;
+    if (count > 0) remaining.set(line, count - 1);
+    else added++;
+  }
+  const removed = Array.from(remaining.values()).reduce((sum, n) => sum + n, 0);
+  return { added, removed };
+}
+
+/**
+ * Renders hunks as SEARCH/REPLACE blocks for prompts and reviews.
+ */
+export function renderHunks(hunks: EditHunk[]): string {
+  return hunks
+    .map(h => `<<<<<<< SEARCH\n${h.search}\n=======\n${h.replace}\n>>>>>>> REPLACE`)
+    .join('\n');
+}
+
+function applyLineHunks(file: string, original: string, hunks: LineHunk[]): string {
+  if (original.includes('\uFFFD')) {
+    throw new PatchConflictError(file, ['file is not valid UTF-8 text and cannot be patched']);
+  }
+  if (hunks.length === 0) {
+    throw new PatchConflictError(file, ['edit contains no hunks']);
+  }
+
+  const layout = parseLayout(original);
+  const conflicts: string[] = [];
+  const matches: Array<{ hunk: LineHunk; index: number; replacement: string[] }> = [];
+
+  for (const hunk of hunks) {
+    if (hunk.oldLines.length === 0) {
+      conflicts.push(`${hunk.label}: search block is empty; use surrounding lines as an anchor`);
+      continue;
+    }
+
+    const match = locate(layout.lines, hunk.oldLines, hunk.hint);
+    if ('error' in match) {
+      conflicts.push(`${hunk.label}: ${match.error} (block starts with "${hunk.oldLines[0].trim().slice(0, 80)}")`);
+      continue;
+    }
+
+    const replacement = match.exact ? hunk.newLines : reindent(hunk.newLines, hunk.oldLines, layout.lines[match.index]);
+    matches.push({ hunk, index: match.index, replacement });
+  }
+
+  matches.sort((a, b) => a.index - b.index);
+  for (let i = 1; i < matches.length; i++) {
+    const previous = matches[i - 1];
+    if (matches[i].index < previous.index + previous.hunk.oldLines.length) {
+      conflicts.push(`${matches[i].hunk.label}: overlaps the lines ${previous.hunk.label} changes; merge them into one hunk`);
+    }
+  }
+
+  if (conflicts.length > 0) {
+    throw new PatchConflictError(file, conflicts);
+  }
+
+  const lines: string[] = [];
+  const endings: string[] = [];
+  let next = 0;
+  for (const { hunk, index, replacement } of matches) {
+    lines.push(...layout.lines.slice(next, index));
+    endings.push(...layout.endings.slice(next, index));
+
+    // Replacement lines take the endings of the lines they replace; the last keeps the block's own
+    const replaced = layout.endings.slice(index, index + hunk.oldLines.length);
+    lines.push(...replacement);
+    endings.push(...replacement.map((_, k) =>
+      k === replacement.length - 1 ? replaced[replaced.length - 1] : k < replaced.length - 1 ? replaced[k] : layout.eol
+    ));
+    next = index + hunk.oldLines.length;
+  }
+  lines.push(...layout.lines.slice(next));
+  endings.push(...layout.endings.slice(next));
+
+  return serializeLayout({ ...layout, lines, endings });
+}
+
+type Location = { index: number; exact: boolean } | { error: string };
+
+/**
+ * Finds where `block` occurs in `lines`: exact matches first, then matches that ignore
+ * whitespace differences. When a position hint exists the nearest match within the drift
+ * window wins; without one, the match must be unique.
+ */
+function locate(lines: string[], block: string[], hint?: number): Location {
+  const comparators: Array<{ exact: boolean; eq: (a: string, b: string) => boolean }> = [
+    { exact: true, eq: (a, b) => a === b },
+    { exact: false, eq: (a, b) => a.trimEnd() === b.trimEnd() },
+    { exact: false, eq: (a, b) => a.replace(/\s+/g, ' ').trim() === b.replace(/\s+/g, ' ').trim() },
+  ];
+
+  for (const { exact, eq } of comparators) {
+    const found: number[] = [];
+    for (let i = 0; i + block.length <= lines.length; i++) {
+      if (block.every((line, j) => eq(lines[i + j], line))) found.push(i);
+    }
+    if (found.length === 0) continue;
+
+    if (hint !== undefined) {
+      const nearest = found.reduce((best, i) => (Math.abs(i - hint) < Math.abs(best - hint) ? i : best));
+      if (Math.abs(nearest - hint) <= MAX_LINE_DRIFT) return { index: nearest, exact };
+      return { error: `matching lines found ${Math.abs(nearest - hint)} lines away from the expected position` };
+    }
+
+    if (found.length > 1) {
+      return { error: `search block is ambiguous (${found.length} matches); include more surrounding lines` };
+    }
+    return { index: found[0], exact };
+  }
+
+  return { error: 'search block does not match the current file content' };
+}
+
+/**
+ * When a block only matched after ignoring whitespace, shift the replacement's indentation
+ * by the same amount the file's indentation differs from the model's.
+ */
+function reindent(newLines: string[], oldLines: string[], matchedFirstLine: string): string[] {
+  const modelIndent = leadingWhitespace(oldLines[0]);
+  const fileIndent = leadingWhitespace(matchedFirstLine);
+  if (modelIndent === fileIndent) return newLines;
+
+  return newLines.map(line =>
+    line.startsWith(modelIndent) && line.trim() !== '' ? fileIndent + line.slice(modelIndent.length) : line
+  );
+}
+
+function parseUnifiedDiff(file: string, diff: string): LineHunk[] {
+  const hunks: LineHunk[] = [];
+  let current: LineHunk | null = null;
+
+  for (const raw of splitLines(diff)) {
+    const header = raw.match(/^@@ -(\d+)(?:,\d+)? \+\d+(?:,\d+)? @@/);
+    if (header) {
+      current = { label: raw.trim(), oldLines: [], newLines: [], hint: Math.max(0, parseInt(header[1], 10) - 1) };
+      hunks.push(current);
+      continue;
+    }
+    if (!current || raw.startsWith('\\')) continue;
+
+    const marker = raw[0];
+    const text = raw.slice(1);
+    if (marker === '-') {
+      current.oldLines.push(text);
+    } else if (marker === '+') {
+      current.newLines.push(text);
+    } else if (marker === ' ' || raw === '') {
+      current.oldLines.push(text);
+      current.newLines.push(text);
+    }
+  }
+
+  if (hunks.length === 0) {
+    throw new PatchConflictError(file, ['diff contains no "@@" hunk headers']);
+  }
+  return hunks;
+}
+
+function parseLayout(text: string): TextLayout {
+  const bom = text.startsWith('\uFEFF') ? '\uFEFF' : '';
+  const body = bom ? text.slice(1) : text;
+  const trailingNewline = body.endsWith('\n');
+
+  const lines: string[] = [];
+  const endings: string[] = [];
+  const parts = body === '' ? [] : body.split('\n');
+  if (trailingNewline) parts.pop();
+  parts.forEach((part, i) => {
+    const last = i === parts.length - 1 && !trailingNewline;
+    const crlf = !last && part.endsWith('\r');
+    lines.push(crlf ? part.slice(0, -1) : part);
+    endings.push(last ? '' : crlf ? '\r\n' : '\n');
+  });
+
+  const crlfLines = endings.filter(ending => ending === '\r\n').length;
+  const eol = crlfLines > endings.length - crlfLines - (trailingNewline ? 0 : 1) ? '\r\n' : '\n';
+  return { bom, eol, trailingNewline, lines, endings };
+}
+
+function serializeLayout(layout: TextLayout): string {
+  // Only the last line goes without an ending, and only if the file had none at its end
+  const endings = layout.lines.map((_, i) => {
+    if (i < layout.lines.length - 1) return layout.endings[i] || layout.eol;
+    return layout.trailingNewline ? layout.endings[i] || layout.eol : '';
+  });
+  return layout.bom + layout.lines.map((line, i) => line + endings[i]).join('');
+}
+
+function splitLines(text: string): string[] {
+  if (text === '') return [];
+  return text.replace(/\r\n/g, '\n').replace(/\n$/, '').split('\n');
+}
+
+function leadingWhitespace(line: string): string {
+  return line.match(/^\s*/)![0];
+}
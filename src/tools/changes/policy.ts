@@ -0,0 +1,161 @@
+import path from 'path';
+import ignore from 'ignore';
+import { ChangePolicy, ChangeSet, RepoConfig } from '../../types';
+import type { ChangeTarget } from './index';
+import { findSecrets } from '../../utils/redact';
+import { countChangedLines } from './patch';
+
+export const DEFAULT_CHANGE_POLICY: ChangePolicy = {
+  forbiddenPaths: [
+    // CI configuration
+    '.github/workflows/',
+    '.gitlab-ci.yml',
+    '.circleci/',
+    // Licensing
+    'LICENSE*',
+    'COPYING*',
+    // Lockfiles
+    'package-lock.json',
+    'npm-shrinkwrap.json',
+    'yarn.lock',
+    'pnpm-lock.yaml',
+    'bun.lock',
+    'bun.lockb',
+    'poetry.lock',
+    'uv.lock',
+    'Pipfile.lock',
+    'Cargo.lock',
+    'go.sum',
+    'composer.lock',
+    'Gemfile.lock',
+    'mix.lock',
+    // Vendored code
+    'vendor/',
+    'third_party/',
+    'node_modules/',
+    // Our own configuration
+    '.oss-dev.yml',
+    '.oss-dev.yaml',
+  ],
+  forbiddenExtensions: [
+    '.exe', '.dll', '.so', '.dylib', '.jar', '.class', '.pyc',
+    '.png', '.jpg', '.jpeg', '.gif', '.ico', '.pdf',
+    '.zip', '.gz', '.tar', '.woff', '.woff2', '.ttf',
+  ],
+  protectedPackageFields: ['scripts'],
+  maxFiles: 10,
+  maxLines: 400,
+};
+
+export class PolicyViolationError extends Error {
+  constructor(public readonly violations: string[]) {
+    super(`Change set violates the change policy:\n${violations.map(v => `- ${v}`).join('\n')}`);
+    this.name = 'PolicyViolationError';
+  }
+}
+
+/**
+ * The default policy with the repository's `policy` section and `exclude` patterns added.
+ * A `!pattern` in `forbiddenPaths` lifts a default the way it would in a `.gitignore`, and a
+ * `!.ext` in `forbiddenExtensions` or `!field` in `protectedPackageFields` removes that entry.
+ */
+export function resolveChangePolicy(repoConfig: RepoConfig = {}): ChangePolicy {
+  const overrides = repoConfig.policy || {};
+  return {
+    forbiddenPaths: [
+      ...DEFAULT_CHANGE_POLICY.forbiddenPaths,
+      ...(overrides.forbiddenPaths || []),
+      ...(repoConfig.exclude || []),
+    ],
+    forbiddenExtensions: withNegations(
+      DEFAULT_CHANGE_POLICY.forbiddenExtensions,
+      (overrides.forbiddenExtensions || []).map(ext => ext.replace(/^(!?)\.?/, '$1.').toLowerCase())
+    ),
+    protectedPackageFields: withNegations(DEFAULT_CHANGE_POLICY.protectedPackageFields, overrides.protectedPackageFields || []),
+    maxFiles: overrides.maxFiles ?? DEFAULT_CHANGE_POLICY.maxFiles,
+    maxLines: overrides.maxLines ?? DEFAULT_CHANGE_POLICY.maxLines,
+  };
+}
+
+/**
+ * Checks a resolved change set (every edit carries its full new content) against `policy`,
+ * reading the current files from `target`. Secret-looking values the change introduces are
+ * always a violation. Every violation is collected so the engineer can
+ * address them all at once; throws `PolicyViolationError` if there are any.
+ */
+export async function enforceChangePolicy(target: ChangeTarget, changeSet: ChangeSet, policy: ChangePolicy): Promise<void> {
+  const violations: string[] = [];
+  const forbidden = ignore().add(policy.forbiddenPaths);
+  const extensions = new Set(policy.forbiddenExtensions.map(ext => ext.toLowerCase()));
+
+  let files = 0;
+  let lines = 0;
+  for (const change of changeSet.changes) {
+    const paths = change.kind === 'rename' && change.newFile ? [change.file, change.newFile] : [change.file];
+    files += paths.length;
+
+    for (const file of paths) {
+      if (forbidden.ignores(file)) {
+        violations.push(`${file}: this path may not be changed`);
+      } else if (extensions.has(path.posix.extname(file).toLowerCase())) {
+        violations.push(`${file}: ${path.posix.extname(file)} files may not be changed`);
+      }
+    }
+
+    const original = change.kind === 'create' ? '' : await readIfExists(target, change.file);
+    const updated = change.kind === 'delete' ? '' : change.content ?? original;
+    const counted = countChangedLines(original, updated);
+    lines += counted.added + counted.removed;
+
+    // Only values the change introduces count; a fixture that already holds a fake key is not the fix's doing
+    const destination = change.newFile || change.file;
+    for (const secret of findSecrets(updated).filter(finding => !original.includes(finding.value))) {
+      violations.push(`${destination}:${secret.line}: introduces a secret-looking value (${secret.name})`);
+    }
+
+    if (path.posix.basename(destination) === 'package.json' && change.kind !== 'delete') {
+      for (const field of changedPackageFields(original, updated, policy.protectedPackageFields)) {
+        violations.push(`${destination}: the "${field}" field may not be changed`);
+      }
+    }
+  }
+
+  if (files > policy.maxFiles) {
+    violations.push(`${files} files changed; at most ${policy.maxFiles} are allowed`);
+  }
+  if (lines > policy.maxLines) {
+    violations.push(`${lines} lines changed; at most ${policy.maxLines} are allowed`);
+  }
+
+  if (violations.length > 0) {
+    throw new PolicyViolationError(violations);
+  }
+}
+
+function withNegations(defaults: string[], overrides: string[]): string[] {
+  const lifted = new Set(overrides.filter(entry => entry.startsWith('!')).map(entry => entry.slice(1)));
+  const added = overrides.filter(entry => !entry.startsWith('!'));
+  return Array.from(new Set([...defaults, ...added])).filter(entry => !lifted.has(entry));
+}
+
+async function readIfExists(target: ChangeTarget, file: string): Promise<string> {
+  return (await target.exists(file)) ? target.readFile(file) : '';
+}
+
+function changedPackageFields(original: string, updated: string, fields: string[]): string[] {
+  if (fields.length === 0) return [];
+  const before = parseJson(original);
+  const after = parseJson(updated);
+  // New manifests are free to declare anything; one that no longer parses is left for the tests to catch
+  if (!before || !after) return [];
+  return fields.filter(field => JSON.stringify(before[field]) !== JSON.stringify(after[field]));
+}
+
+function parseJson(text: string): Record<string, unknown> | undefined {
+  try {
+    const value = JSON.parse(text);
+    return value && typeof value === 'object' ? value : undefined;
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,155 @@
+import { execa } from 'execa';
+import { GitIdentity } from '../../types';
+import { logger } from '../../utils/logger';
+import { redact } from '../../utils/redact';
+
+export type GitErrorKind =
+  | 'not_a_repository'
+  | 'no_default_branch'
+  | 'nothing_to_commit'
+  | 'push_rejected'
+  | 'permission_denied'
+  | 'unknown';
+
+export class GitError extends Error {
+  constructor(
+    public readonly kind: GitErrorKind,
+    public readonly args: string[],
+    public readonly output: string
+  ) {
+    // Push and fetch URLs may carry a token
+    super(redact(`git ${args.join(' ')} failed: ${output.trim().split('\n').slice(-3).join('\n') || 'no output'}`));
+    this.name = 'GitError';
+  }
+}
+
+interface GitResult {
+  exitCode: number;
+  stdout: string;
+  output: string;
+}
+
+const ERROR_KINDS: [RegExp, GitErrorKind][] = [
+  [/not a git repository/i, 'not_a_repository'],
+  [/nothing to commit|no changes added to commit/i, 'nothing_to_commit'],
+  [/permission to .* denied|authentication failed|could not read username|error: 403|returned error: 403/i, 'permission_denied'],
+  [/\[rejected\]|\[remote rejected\]|non-fast-forward|failed to push/i, 'push_rejected'],
+];
+
+/**
+ * Git operations on one checkout. Every command is run with an argument array, never through
+ * a shell, and commits are authored as `identity` without touching the repository's config.
+ */
+export class GitService {
+  constructor(
+    public readonly repoPath: string,
+    private readonly identity?: GitIdentity
+  ) {}
+
+  /**
+   * The branch `remote`'s HEAD points to: the one recorded at clone time, else asked from the remote.
+   */
+  async defaultBranch(remote = 'origin'): Promise<string> {
+    const recorded = await this.exec(['symbolic-ref', '--quiet', '--short', `refs/remotes/${remote}/HEAD`]);
+    if (recorded.exitCode === 0 && recorded.stdout.startsWith(`${remote}/`)) {
+      return recorded.stdout.slice(remote.length + 1);
+    }
+
+    const args = ['ls-remote', '--symref', remote, 'HEAD'];
+    const advertised = await this.run(args);
+    const match = advertised.match(/^ref: refs\/heads\/(\S+)\s+HEAD$/m);
+    if (!match) {
+      throw new GitError('no_default_branch', args, `${remote} does not advertise a default branch`);
+    }
+    return match[1];
+  }
+
+  async currentBranch(): Promise<string> {
+    return this.run(['rev-parse', '--abbrev-ref', 'HEAD']);
+  }
+
+  /**
+   * Switches a shallow clone to `branch`, fetching it first since only the default branch is cloned.
+   */
+  async checkoutBranch(branch: string): Promise<void> {
+    if ((await this.currentBranch()) === branch) return;
+    await this.run(['fetch', '--depth', '1', 'origin', branch]);
+    await this.run(['checkout', '-B', branch, 'FETCH_HEAD']);
+    logger.info(`Checked out base branch ${branch}`);
+  }
+
+  /**
+   * Whether `branch` exists locally, or on `remote` (a name or URL) when one is given.
+   */
+  async branchExists(branch: string, remote?: string): Promise<boolean> {
+    const local = await this.exec(['show-ref', '--verify', '--quiet', `refs/heads/${branch}`]);
+    if (local.exitCode === 0) return true;
+    if (!remote) return false;
+    return (await this.run(['ls-remote', '--heads', remote, `refs/heads/${branch}`])) !== '';
+  }
+
+  /**
+   * Creates and checks out a branch named `name`, or `name-2`, `name-3`, ... if that is taken
+   * locally or on `remote`. Returns the name used.
+   */
+  async createBranch(name: string, options: { remote?: string } = {}): Promise<string> {
+    let branch = name;
+    for (let suffix = 2; await this.branchExists(branch, options.remote); suffix++) {
+      branch = `${name}-${suffix}`;
+    }
+    await this.run(['checkout', '-b', branch]);
+    return branch;
+  }
+
+  /**
+   * Stages exactly `paths`, including deletions; anything else in the working tree stays unstaged.
+   */
+  async stage(paths: string[]): Promise<void> {
+    if (paths.length === 0) {
+      throw new GitError('nothing_to_commit', ['add'], 'no paths to stage');
+    }
+    await this.run(['add', '--all', '--', ...paths]);
+  }
+
+  /**
+   * Commits what is staged and returns the new commit's SHA.
+   */
+  async commit(message: string): Promise<string> {
+    await this.run(['commit', '--message', message]);
+    return this.run(['rev-parse', 'HEAD']);
+  }
+
+  /**
+   * Pushes `branch` to the branch of the same name on `remote` (a name or URL).
+   */
+  async push(remote: string, branch: string): Promise<void> {
+    await this.run(['push', remote, `refs/heads/${branch}:refs/heads/${branch}`]);
+  }
+
+  private async run(args: string[]): Promise<string> {
+    const result = await this.exec(args);
+    if (result.exitCode !== 0) {
+      const kind = ERROR_KINDS.find(([pattern]) => pattern.test(result.output))?.[1] ?? 'unknown';
+      throw new GitError(kind, args, result.output);
+    }
+    return result.stdout;
+  }
+
+  private async exec(args: string[]): Promise<GitResult> {
+    const env = this.identity
+      ? {
+        GIT_AUTHOR_NAME: this.identity.name,
+        GIT_AUTHOR_EMAIL: this.identity.email,
+        GIT_COMMITTER_NAME: this.identity.name,
+        GIT_COMMITTER_EMAIL: this.identity.email,
+      }
+      : {};
+    // Never wait for credentials on a terminal nobody is watching
+    const result = await execa('git', args, { cwd: this.repoPath, env: { ...env, GIT_TERMINAL_PROMPT: '0' }, reject: false });
+    return {
+      exitCode: result.exitCode ?? 1,
+      stdout: result.stdout.trim(),
+      output: [result.stdout, result.stderr].filter(Boolean).join('\n') || (result.exitCode === undefined ? 'git could not be started' : ''),
+    };
+  }
+}
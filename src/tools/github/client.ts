@@ -1,13 +1,22 @@
 import { Octokit } from 'octokit';
 import { execa } from 'execa';
-import { GitHubIssue, PullRequest } from '../../types';
+import { GitHubIssue, PullRequest, RepoRef } from '../../types';
 import { logger } from '../../utils/logger';
+import { createCassetteFetch, getActiveCassette } from '../../utils/cassette';
+
+// Forks are copied in the background, usually within seconds
+const FORK_READY_ATTEMPTS = 10;
+const FORK_READY_DELAY_MS = 3000;
 
 export class GitHubClient {
   private octokit: Octokit;
 
   constructor(token: string) {
-    this.octokit = new Octokit({ auth: token });
+    const cassette = getActiveCassette();
+    this.octokit = new Octokit({
+      auth: token,
+      ...(cassette ? { request: { fetch: createCassetteFetch(cassette) } } : {}),
+    });
   }
 
   async getIssue(owner: string, repo: string, issueNumber: number): Promise<GitHubIssue> {
@@ -26,6 +35,31 @@ export class GitHubClient {
     };
   }
 
+  /**
+   * Open issues of a repository, optionally filtered by labels; pull requests are excluded.
+   */
+  async listIssues(owner: string, repo: string, options: { labels?: string[]; limit?: number } = {}): Promise<GitHubIssue[]> {
+    const limit = options.limit ?? 20;
+    const { data } = await this.octokit.rest.issues.listForRepo({
+      owner,
+      repo,
+      state: 'open',
+      labels: options.labels?.join(','),
+      per_page: Math.min(limit, 100),
+    });
+
+    return data
+      .filter(issue => !issue.pull_request)
+      .slice(0, limit)
+      .map(issue => ({
+        number: issue.number,
+        title: issue.title,
+        body: issue.body || '',
+        labels: issue.labels.map((l: any) => (typeof l === 'string' ? l : l.name)),
+        author: issue.user?.login || 'unknown',
+      }));
+  }
+
   async cloneRepo(owner: string, repo: string, targetPath: string): Promise<void> {
     await execa('git', [
       'clone',
@@ -37,13 +71,69 @@ export class GitHubClient {
     logger.success(`Cloned to ${targetPath}`);
   }
 
+  /**
+   * Whether the token may push branches to the repository.
+   */
+  async canPush(owner: string, repo: string): Promise<boolean> {
+    const { data } = await this.octokit.rest.repos.get({ owner, repo });
+    return Boolean(data.permissions?.push);
+  }
+
+  async getAuthenticatedUser(): Promise<string> {
+    const { data } = await this.octokit.rest.users.getAuthenticated();
+    return data.login;
+  }
+
+  /**
+   * The authenticated user's fork of the repository, created if there is none yet. Waits until
+   * GitHub has copied the default branch, since forking happens in the background.
+   */
+  async ensureFork(owner: string, repo: string): Promise<RepoRef> {
+    const existing = await this.findFork(await this.getAuthenticatedUser(), owner, repo);
+    if (existing) {
+      logger.info(`Reusing fork ${existing.owner}/${existing.repo}`);
+      return existing;
+    }
+
+    // Asking for a fork the user already has, under any name, returns that fork instead of a new one
+    const { data } = await this.octokit.rest.repos.createFork({ owner, repo });
+    const fork = toRepoRef(data.full_name);
+    for (let attempt = 1; !(await this.hasBranch(fork, data.default_branch)); attempt++) {
+      if (attempt >= FORK_READY_ATTEMPTS) {
+        throw new Error(`Fork ${fork.owner}/${fork.repo} was not ready after ${FORK_READY_ATTEMPTS} checks`);
+      }
+      await new Promise(resolve => setTimeout(resolve, FORK_READY_DELAY_MS));
+    }
+    logger.success(`Using fork ${fork.owner}/${fork.repo} of ${owner}/${repo}`);
+    return fork;
+  }
+
+  /**
+   * Brings `branch` of a fork up to date with its upstream. A fork that has diverged is left as
+   * it is: the fix branch is pushed from the upstream's history either way.
+   */
+  async syncFork(fork: RepoRef, branch: string): Promise<boolean> {
+    try {
+      await this.octokit.rest.repos.mergeUpstream({ owner: fork.owner, repo: fork.repo, branch });
+      return true;
+    } catch (error: any) {
+      logger.warn(`Could not sync ${fork.owner}/${fork.repo}@${branch} with upstream: ${error.message}`);
+      return false;
+    }
+  }
+
+  /**
+   * Opens a pull request. `head` is a branch of the repository itself or, for a branch of a fork,
+   * `user:branch`; `maintainerCanModify` only applies to the latter.
+   */
   async createPR(
     owner: string,
     repo: string,
     title: string,
     body: string,
     head: string,
-    base: string = 'main'
+    base: string,
+    options: { draft?: boolean; maintainerCanModify?: boolean } = {}
   ): Promise<PullRequest> {
     const { data } = await this.octokit.rest.pulls.create({
       owner,
@@ -52,8 +142,39 @@ export class GitHubClient {
       body,
       head,
       base,
+      draft: options.draft,
+      maintainer_can_modify: options.maintainerCanModify,
     });
 
     return { url: data.html_url, number: data.number };
   }
+
+  /**
+   * The user's fork when it still has the upstream's name; a renamed fork is found by `ensureFork`.
+   */
+  private async findFork(user: string, owner: string, repo: string): Promise<RepoRef | undefined> {
+    try {
+      const { data } = await this.octokit.rest.repos.get({ owner: user, repo });
+      const isFork = data.fork && data.parent?.full_name.toLowerCase() === `${owner}/${repo}`.toLowerCase();
+      return isFork ? toRepoRef(data.full_name) : undefined;
+    } catch (error: any) {
+      if (error.status === 404) return undefined;
+      throw error;
+    }
+  }
+
+  private async hasBranch(ref: RepoRef, branch: string): Promise<boolean> {
+    try {
+      await this.octokit.rest.repos.getBranch({ owner: ref.owner, repo: ref.repo, branch });
+      return true;
+    } catch (error: any) {
+      if (error.status === 404) return false;
+      throw error;
+    }
+  }
+}
+
+function toRepoRef(fullName: string): RepoRef {
+  const [owner, repo] = fullName.split('/');
+  return { owner, repo };
 }
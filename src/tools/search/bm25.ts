@@ -0,0 +1,188 @@
+import fs from 'fs';
+import path from 'path';
+import { CodeSnippet } from '../../types';
+import { logger } from '../../utils/logger';
+import { commitCacheFile, readCache, writeCache } from './cache';
+import { listRepoFiles } from './files';
+
+const SOURCE_EXTENSIONS = new Set([
+  '.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs', '.vue', '.svelte',
+  '.py', '.go', '.rs', '.java', '.kt', '.scala', '.rb', '.php', '.cs', '.swift',
+  '.c', '.h', '.cc', '.cpp', '.hpp', '.m', '.ex', '.exs', '.dart', '.lua', '.sh',
+]);
+
+/** Chunks are windows of this many lines, each starting `CHUNK_STEP` lines after the last. */
+const CHUNK_LINES = 40;
+const CHUNK_STEP = 30;
+const K1 = 1.2;
+const B = 0.75;
+/** Bumped whenever chunking or tokenizing changes, so old cache files are ignored. */
+const CACHE_VERSION = 1;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'can', 'do', 'does', 'for', 'from', 'has', 'have',
+  'if', 'in', 'into', 'is', 'it', 'its', 'not', 'of', 'on', 'or', 'should', 'so', 'that', 'the', 'then',
+  'there', 'this', 'to', 'was', 'when', 'which', 'will', 'with', 'would', 'instead', 'expected', 'actual',
+  'const', 'let', 'var', 'function', 'return', 'import', 'export', 'default', 'class', 'new', 'def', 'self',
+  'elif', 'else', 'true', 'false', 'null', 'none', 'undefined', 'void', 'func', 'fn', 'pub', 'public',
+  'private', 'protected', 'static', 'async', 'await', 'string', 'number', 'int', 'bool', 'type', 'interface',
+]);
+
+interface Chunk {
+  file: string;
+  startLine: number;
+  endLine: number;
+  /** Number of tokens in the chunk. */
+  length: number;
+  /** Token counts. */
+  terms: Record<string, number>;
+}
+
+/**
+ * Offline lexical ranking of repository chunks with BM25. It finds code that shares
+ * vocabulary with the issue text when no search pattern matches, without embeddings or
+ * any network access. Indexes of clean checkouts are cached per commit under
+ * `<dataDir>/cache/bm25/`.
+ */
+export class Bm25Index {
+  private documentFrequency = new Map<string, number>();
+  private averageLength: number;
+
+  private constructor(private chunks: Chunk[], private readLines: (file: string) => string[] | undefined) {
+    for (const chunk of chunks) {
+      for (const term of Object.keys(chunk.terms)) {
+        this.documentFrequency.set(term, (this.documentFrequency.get(term) || 0) + 1);
+      }
+    }
+    this.averageLength = chunks.reduce((sum, chunk) => sum + chunk.length, 0) / (chunks.length || 1);
+  }
+
+  get size(): number {
+    return this.chunks.length;
+  }
+
+  /**
+   * Indexes the source files under `root`, or loads the index cached for its commit.
+   */
+  static async build(root: string): Promise<Bm25Index> {
+    const lines = new Map<string, string[]>();
+    const readLines = (file: string) => {
+      if (!lines.has(file)) {
+        try {
+          lines.set(file, fs.readFileSync(path.join(root, file), 'utf8').split(/\r?\n/));
+        } catch {
+          return undefined;
+        }
+      }
+      return lines.get(file);
+    };
+
+    const cacheFile = await commitCacheFile(root, 'bm25');
+    const cached = cacheFile && readCache<Chunk[]>(cacheFile, CACHE_VERSION);
+    if (Array.isArray(cached)) {
+      logger.debug(`BM25 index: ${cached.length} chunks loaded from ${cacheFile}`);
+      return new Bm25Index(cached, readLines);
+    }
+
+    const chunks: Chunk[] = [];
+    for (const file of await listRepoFiles(root, file => SOURCE_EXTENSIONS.has(path.extname(file)))) {
+      const fileLines = readLines(file);
+      if (fileLines) chunks.push(...chunkFile(file, fileLines));
+    }
+    if (cacheFile) writeCache(cacheFile, CACHE_VERSION, chunks);
+
+    logger.debug(`BM25 index: ${chunks.length} chunks`);
+    return new Bm25Index(chunks, readLines);
+  }
+
+  static fromSources(sources: Record<string, string>): Bm25Index {
+    const lines = new Map(Object.entries(sources)
+      .filter(([file]) => SOURCE_EXTENSIONS.has(path.extname(file)))
+      .map(([file, content]) => [file, content.split(/\r?\n/)]));
+    const chunks = Array.from(lines).flatMap(([file, fileLines]) => chunkFile(file, fileLines));
+    return new Bm25Index(chunks, file => lines.get(file));
+  }
+
+  /**
+   * The `limit` chunks that best match `query`, as snippets whose matched lines are the lines
+   * containing a query term. Repeated words in the query weigh more.
+   */
+  search(query: string, limit: number): CodeSnippet[] {
+    const queryTerms = countTerms(tokenize(query));
+    if (Object.keys(queryTerms).length === 0) return [];
+
+    const scored = this.chunks
+      .map(chunk => ({ chunk, score: this.score(chunk, queryTerms) }))
+      .filter(({ score }) => score > 0)
+      .sort((a, b) => b.score - a.score || a.chunk.file.localeCompare(b.chunk.file) || a.chunk.startLine - b.chunk.startLine)
+      .slice(0, limit);
+
+    const top = scored[0]?.score || 1;
+    return scored.flatMap(({ chunk, score }) => {
+      const lines = this.readLines(chunk.file)?.slice(chunk.startLine - 1, chunk.endLine);
+      if (!lines) return [];
+      const matchLines = lines
+        .map((line, i) => (tokenize(line).some(term => queryTerms[term]) ? chunk.startLine + i : -1))
+        .filter(line => line !== -1);
+      return [{
+        file: chunk.file,
+        startLine: chunk.startLine,
+        endLine: chunk.endLine,
+        content: lines.join('\n'),
+        relevanceScore: Math.round((score / top) * 100) / 100,
+        matchLines,
+        queries: ['bm25'],
+      }];
+    });
+  }
+
+  private score(chunk: Chunk, queryTerms: Record<string, number>): number {
+    const total = this.chunks.length;
+    let score = 0;
+    for (const [term, queryCount] of Object.entries(queryTerms)) {
+      const frequency = chunk.terms[term];
+      if (!frequency) continue;
+      const df = this.documentFrequency.get(term) || 0;
+      const idf = Math.log(1 + (total - df + 0.5) / (df + 0.5));
+      const norm = frequency + K1 * (1 - B + (B * chunk.length) / this.averageLength);
+      score += queryCount * idf * ((frequency * (K1 + 1)) / norm);
+    }
+    return score;
+  }
+}
+
+function chunkFile(file: string, lines: string[]): Chunk[] {
+  const chunks: Chunk[] = [];
+  for (let start = 0; start < lines.length; start += CHUNK_STEP) {
+    const end = Math.min(start + CHUNK_LINES, lines.length);
+    const tokens = tokenize(lines.slice(start, end).join('\n'));
+    if (tokens.length > 0) {
+      chunks.push({ file, startLine: start + 1, endLine: end, length: tokens.length, terms: countTerms(tokens) });
+    }
+    if (end === lines.length) break;
+  }
+  return chunks;
+}
+
+/**
+ * Lower-cased words and identifiers, with camelCase and snake_case identifiers also split
+ * into their parts so `parseConfigFile` matches "config file" in an issue.
+ */
+function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  for (const word of text.match(/[A-Za-z_][A-Za-z0-9_]*/g) || []) {
+    const parts = word.split(/_+|(?<=[a-z0-9])(?=[A-Z])|(?<=[A-Z])(?=[A-Z][a-z])/).filter(Boolean);
+    const candidates = parts.length > 1 ? [word, ...parts] : [word];
+    for (const candidate of candidates) {
+      const token = candidate.toLowerCase();
+      if (token.length > 1 && !STOP_WORDS.has(token)) tokens.push(token);
+    }
+  }
+  return tokens;
+}
+
+function countTerms(tokens: string[]): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const token of tokens) counts[token] = (counts[token] || 0) + 1;
+  return counts;
+}
@@ -0,0 +1,47 @@
+import fs from 'fs';
+import path from 'path';
+import { execa } from 'execa';
+import { config } from '../../utils/config';
+import { logger } from '../../utils/logger';
+
+interface CacheFile<T> {
+  version: number;
+  data: T;
+}
+
+/**
+ * Cache file under `<dataDir>/cache/<kind>/` for data derived from the checkout at `root`,
+ * named after its commit (plus `variant` when the data also depends on options). Undefined
+ * when `root` is not a git checkout or has local changes the commit does not describe.
+ */
+export async function commitCacheFile(root: string, kind: string, variant?: string): Promise<string | undefined> {
+  try {
+    const { stdout: commit } = await execa('git', ['rev-parse', 'HEAD'], { cwd: root });
+    const { stdout: changes } = await execa('git', ['status', '--porcelain'], { cwd: root });
+    if (!/^[0-9a-f]{40,64}$/.test(commit.trim()) || changes.trim()) return undefined;
+    return path.join(config.dataDir, 'cache', kind, `${commit.trim()}${variant ? `-${variant}` : ''}.json`);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Cached data, or undefined when the file is missing, unreadable or of another `version`.
+ */
+export function readCache<T>(file: string, version: number): T | undefined {
+  try {
+    const cached = JSON.parse(fs.readFileSync(file, 'utf8')) as CacheFile<T>;
+    return cached.version === version ? cached.data : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+export function writeCache<T>(file: string, version: number, data: T): void {
+  try {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, JSON.stringify({ version, data } satisfies CacheFile<T>));
+  } catch (error: any) {
+    logger.debug(`Could not write cache ${file}: ${error.message}`);
+  }
+}
@@ -0,0 +1,34 @@
+import fs from 'fs/promises';
+import path from 'path';
+
+export const IGNORED_DIRS = new Set(['node_modules', '.git', 'dist', 'build', 'target', 'venv', '.venv', '.next', '.cache', 'vendor', '__pycache__', 'coverage']);
+const MAX_FILE_BYTES = 512 * 1024;
+const MAX_FILES = 5000;
+
+/**
+ * Repository files (relative, `/`-separated) whose name passes `accept`, skipping dependency,
+ * build and hidden directories, minified bundles and files too large to be source code.
+ */
+export async function listRepoFiles(root: string, accept: (file: string) => boolean): Promise<string[]> {
+  const files: string[] = [];
+  const walk = async (dir: string) => {
+    let entries;
+    try {
+      entries = await fs.readdir(path.join(root, dir), { withFileTypes: true });
+    } catch {
+      return;
+    }
+    for (const entry of entries) {
+      if (files.length >= MAX_FILES) return;
+      const relative = dir ? `${dir}/${entry.name}` : entry.name;
+      if (entry.isDirectory()) {
+        if (!IGNORED_DIRS.has(entry.name) && !entry.name.startsWith('.')) await walk(relative);
+      } else if (entry.isFile() && accept(relative) && !/\.min\.(js|css)$/.test(entry.name)) {
+        const stat = await fs.stat(path.join(root, relative));
+        if (stat.size <= MAX_FILE_BYTES) files.push(relative);
+      }
+    }
+  };
+  await walk('');
+  return files;
+}
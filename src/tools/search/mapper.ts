@@ -1,56 +1,269 @@
 import fs from 'fs/promises';
 import { existsSync } from 'fs';
+import crypto from 'crypto';
 import path from 'path';
+import ignore from 'ignore';
+import { ProjectMap, ProjectMapEntry } from '../../types';
 import { logger } from '../../utils/logger';
+import { commitCacheFile, readCache, writeCache } from './cache';
+import { IGNORED_DIRS } from './files';
+import { SymbolIndex } from './symbols';
+
+export interface ProjectMapOptions {
+    /** Extra gitignore-style patterns, applied after the repository's own `.gitignore` files. */
+    ignore?: string[];
+    /** Directories nested deeper than this are collapsed. */
+    maxDepth?: number;
+    /** Files and directories listed before the rest is collapsed. */
+    maxEntries?: number;
+    /** List each file's top-level exported symbols. */
+    outline?: boolean;
+}
+
+interface ScannedEntry {
+    path: string;
+    type: 'file' | 'dir';
+    size?: number;
+    children?: ScannedEntry[];
+    fileCount?: number;
+}
+
+interface IgnoreRules {
+    /** Directory of the `.gitignore` the rules come from, relative to the repository root. */
+    base: string;
+    rules: ReturnType<typeof ignore>;
+}
+
+/** Entries scanned before the walk stops, so huge checkouts still map quickly. */
+const MAX_SCANNED = 50_000;
+const MAX_OUTLINE_SYMBOLS = 8;
+const CACHE_VERSION = 1;
 
 /**
- * Generates a semantic map of the project's file structure to provide context to AI agents.
+ * Generates a map of the project's file structure to provide context to AI agents.
+ * `.gitignore` files and custom ignore rules are respected, and the map is capped at
+ * `maxEntries` lines: the shallow structure is listed first and whatever does not fit is
+ * collapsed into file counts. Maps of clean checkouts are cached per commit.
  */
 export class ProjectMapper {
+    private options: Required<ProjectMapOptions>;
+
+    constructor(options: ProjectMapOptions = {}) {
+        this.options = {
+            ignore: options.ignore ?? [],
+            maxDepth: options.maxDepth ?? 4,
+            maxEntries: options.maxEntries ?? 200,
+            outline: options.outline ?? false,
+        };
+    }
+
     /**
      * Generates a string representation of the project structure.
      */
     async getMap(repoPath: string): Promise<string> {
         logger.info(`Mapping project structure: ${repoPath}`);
+        return renderProjectMap(await this.build(repoPath));
+    }
+
+    /**
+     * The project structure as data, e.g. for JSON output.
+     */
+    async build(repoPath: string): Promise<ProjectMap> {
         if (!existsSync(repoPath)) {
             throw new Error(`Repository path does not exist: ${repoPath}`);
         }
 
-        const files = await this.walk(repoPath);
-        return files.join('\n');
+        const variant = crypto.createHash('sha1').update(JSON.stringify(this.options)).digest('hex').slice(0, 12);
+        const cacheFile = await commitCacheFile(repoPath, 'project-map', variant);
+        const cached = cacheFile && readCache<ProjectMap>(cacheFile, CACHE_VERSION);
+        if (cached) {
+            logger.debug(`Project map loaded from ${cacheFile}`);
+            return cached;
+        }
+
+        const root = await this.scan(repoPath);
+        const map = this.fit(root);
+        if (this.options.outline) {
+            await this.addOutline(repoPath, map.entries);
+        }
+
+        if (cacheFile) writeCache(cacheFile, CACHE_VERSION, map);
+        return map;
     }
 
     /**
-     * Recursively walks the directory tree to build a flat list of file paths.
+     * Walks the whole tree, skipping ignored paths and counting the files under each directory.
      */
-    private async walk(dir: string, currentDepth: number = 0, maxDepth: number = 3): Promise<string[]> {
-        if (currentDepth > maxDepth) return [];
-
-        let results: string[] = [];
-        try {
-            const list = await fs.readdir(dir);
-            for (const file of list) {
-                // Exclude common noise and binary directories
-                if (['node_modules', '.git', 'dist', 'build', 'target', 'venv', '.next', '.cache'].includes(file)) {
-                    continue;
+    private async scan(repoPath: string): Promise<ScannedEntry> {
+        const rootRules = ignore()
+            .add(Array.from(IGNORED_DIRS, dir => `${dir}/`))
+            .add(await readIgnoreFile(path.join(repoPath, '.gitignore')))
+            .add(this.options.ignore);
+        let scanned = 0;
+
+        const walk = async (dir: string, rules: IgnoreRules[]): Promise<ScannedEntry> => {
+            const entry: ScannedEntry = { path: dir, type: 'dir', children: [], fileCount: 0 };
+            let list;
+            try {
+                list = await fs.readdir(path.join(repoPath, dir), { withFileTypes: true });
+            } catch (error: any) {
+                logger.warn(`Error mapping directory ${dir || repoPath}: ${error.message}`);
+                return entry;
+            }
+
+            if (dir && list.some(item => item.name === '.gitignore' && item.isFile())) {
+                const nested = await readIgnoreFile(path.join(repoPath, dir, '.gitignore'));
+                rules = [...rules, { base: dir, rules: ignore().add(nested) }];
+            }
+
+            const sorted = list.sort((a, b) => Number(b.isDirectory()) - Number(a.isDirectory()) || a.name.localeCompare(b.name));
+            for (const item of sorted) {
+                if (scanned >= MAX_SCANNED) break;
+                const relative = dir ? `${dir}/${item.name}` : item.name;
+                if (item.name === '.git' || isIgnored(relative, item.isDirectory(), rules)) continue;
+                scanned++;
+
+                if (item.isDirectory()) {
+                    const child = await walk(relative, rules);
+                    entry.children!.push(child);
+                    entry.fileCount! += child.fileCount!;
+                } else if (item.isFile()) {
+                    const { size } = await fs.stat(path.join(repoPath, relative));
+                    entry.children!.push({ path: relative, type: 'file', size });
+                    entry.fileCount!++;
                 }
+            }
+            return entry;
+        };
+
+        const root = await walk('', [{ base: '', rules: rootRules }]);
+        if (scanned >= MAX_SCANNED) {
+            logger.warn(`Project map stopped after ${MAX_SCANNED} entries; file counts are incomplete`);
+        }
+        return root;
+    }
+
+    /**
+     * Lists directories breadth-first until `maxEntries` is reached. A directory that is only
+     * partly listed reports how many files were left out; one that is not listed at all, or
+     * lies deeper than `maxDepth`, is collapsed into its file count.
+     */
+    private fit(root: ScannedEntry): ProjectMap {
+        const map: ProjectMap = { entries: [], totalFiles: root.fileCount || 0, listedFiles: 0 };
+        let remaining = this.options.maxEntries;
+        const queue: { scanned: ScannedEntry; into: ProjectMapEntry[]; owner?: ProjectMapEntry; depth: number }[] = [
+            { scanned: root, into: map.entries, depth: 1 },
+        ];
+
+        while (queue.length > 0) {
+            const { scanned, into, owner, depth } = queue.shift()!;
+            const children = scanned.children || [];
+            const shown = children.slice(0, Math.max(remaining, 0));
+            remaining -= shown.length;
+
+            if (owner && shown.length === 0) {
+                delete owner.children;
+                owner.collapsed = true;
+                continue;
+            }
 
-                const fullPath = path.join(dir, file);
-                const stat = await fs.stat(fullPath);
-                const relativePath = path.relative(dir, fullPath);
+            for (const child of shown) {
+                if (child.type === 'file') {
+                    into.push({ path: child.path, type: 'file', size: child.size });
+                    map.listedFiles++;
+                    continue;
+                }
+                const entry: ProjectMapEntry = { path: child.path, type: 'dir', fileCount: child.fileCount };
+                into.push(entry);
+                if (!child.children?.length) continue;
+                if (depth < this.options.maxDepth) {
+                    entry.children = [];
+                    queue.push({ scanned: child, into: entry.children, owner: entry, depth: depth + 1 });
+                } else {
+                    entry.collapsed = true;
+                }
+            }
 
-                const indent = '  '.repeat(currentDepth);
-                if (stat.isDirectory()) {
-                    results.push(`${indent}📂 ${file}/`);
-                    const children = await this.walk(fullPath, currentDepth + 1, maxDepth);
-                    results = results.concat(children);
+            const omitted = children.slice(shown.length).reduce((sum, child) => sum + (child.type === 'file' ? 1 : child.fileCount || 0), 0);
+            if (omitted > 0) {
+                if (owner) {
+                    owner.omittedFiles = omitted;
                 } else {
-                    results.push(`${indent}📄 ${file}`);
+                    map.omittedFiles = omitted;
                 }
             }
-        } catch (error: any) {
-            logger.warn(`Error mapping directory ${dir}: ${error.message}`);
         }
-        return results;
+        return map;
+    }
+
+    private async addOutline(repoPath: string, entries: ProjectMapEntry[]): Promise<void> {
+        const files: ProjectMapEntry[] = [];
+        const collect = (list: ProjectMapEntry[]) => list.forEach(e => (e.type === 'file' ? files.push(e) : collect(e.children || [])));
+        collect(entries);
+
+        const sources: Record<string, string> = {};
+        for (const file of files) {
+            try {
+                sources[file.path] = await fs.readFile(path.join(repoPath, file.path), 'utf8');
+            } catch {
+                // Unreadable files are listed without an outline
+            }
+        }
+
+        const index = SymbolIndex.fromSources(sources);
+        for (const file of files) {
+            const names = index.symbols
+                .filter(s => s.file === file.path && s.exported && !s.container)
+                .map(s => s.name);
+            if (names.length > 0) {
+                file.symbols = Array.from(new Set(names)).slice(0, MAX_OUTLINE_SYMBOLS);
+            }
+        }
+    }
+}
+
+/**
+ * Indented tree with one line per listed file or directory. Collapsed directories show their
+ * file count, outlined files their exported symbols.
+ */
+export function renderProjectMap(map: ProjectMap): string {
+    const lines: string[] = [];
+    const render = (entries: ProjectMapEntry[], indent: string, omitted?: number) => {
+        for (const entry of entries) {
+            const name = path.posix.basename(entry.path);
+            if (entry.type === 'dir') {
+                lines.push(`${indent}${name}/${entry.collapsed ? ` (${countFiles(entry.fileCount || 0)})` : ''}`);
+                if (entry.children) render(entry.children, `${indent}  `, entry.omittedFiles);
+            } else {
+                lines.push(`${indent}${name}${entry.symbols ? `: ${entry.symbols.join(', ')}` : ''}`);
+            }
+        }
+        if (omitted) lines.push(`${indent}... ${omitted} more ${omitted === 1 ? 'file' : 'files'}`);
+    };
+    render(map.entries, '', map.omittedFiles);
+    return lines.join('\n');
+}
+
+function countFiles(count: number): string {
+    return `${count} ${count === 1 ? 'file' : 'files'}`;
+}
+
+function isIgnored(relative: string, isDirectory: boolean, rules: IgnoreRules[]): boolean {
+    // Deeper .gitignore files override shallower ones, as in git
+    let ignored = false;
+    for (const { base, rules: matcher } of rules) {
+        const pathInBase = (base ? path.posix.relative(base, relative) : relative) + (isDirectory ? '/' : '');
+        const result = matcher.test(pathInBase);
+        if (result.ignored) ignored = true;
+        else if (result.unignored) ignored = false;
+    }
+    return ignored;
+}
+
+async function readIgnoreFile(file: string): Promise<string> {
+    try {
+        return await fs.readFile(file, 'utf8');
+    } catch {
+        return '';
     }
 }
@@ -3,6 +3,7 @@ import path from 'path';
 import { existsSync } from 'fs';
 import { CodeSnippet } from '../../types';
 import { logger } from '../../utils/logger';
+import { trace } from '../../utils/trace';
 
 /**
  * Executes high-speed code searches using ripgrep with granular control over context and file types.
@@ -41,67 +42,77 @@ export class RipgrepSearch {
       args.push('-g', `*.${options.fileType}`);
     }
 
+    const start = Date.now();
+    const record = (hits: number, error?: string) =>
+      trace('search', { pattern, fileType: options.fileType, contextLines: context, hits, error, durationMs: Date.now() - start });
+
     try {
       logger.debug(`Searching for "${pattern}" in ${repoPath} using ${binary}`);
       const { stdout } = await execa(binary, args, { cwd: repoPath });
-      const results = this.parseJsonOutput(stdout);
+      const results = this.parseJsonOutput(stdout, pattern);
       logger.debug(`Search for "${pattern}" returned ${results.length} snippets`);
+      record(results.length);
       return results;
     } catch (error: any) {
       // Exit code 1 means no matches found
       if (error.exit_code === 1 || error.exitCode === 1) {
         logger.debug(`No matches found for pattern: "${pattern}"`);
+        record(0);
         return [];
       }
       logger.error(`Ripgrep execution failed: ${error.message}`);
+      record(0, error.message);
       return [];
     }
   }
 
-
   /**
-   * Parses the JSON stream output from ripgrep.
+   * Parses the JSON stream output from ripgrep. Match and context lines are collected into
+   * contiguous blocks per file; a gap in line numbers starts a new block.
    */
-  private parseJsonOutput(output: string): CodeSnippet[] {
-    const lines = output.split('\n').filter(Boolean);
+  private parseJsonOutput(output: string, pattern: string): CodeSnippet[] {
     const snippets: CodeSnippet[] = [];
+    let block: { file: string; startLine: number; lines: string[]; matchLines: number[] } | null = null;
 
-    // Group matches by file and line range to avoid overlapping context
-    const fileMatches: Record<string, any[]> = {};
+    const flush = () => {
+      if (!block) return;
+      snippets.push({
+        file: block.file,
+        startLine: block.startLine,
+        endLine: block.startLine + block.lines.length - 1,
+        content: block.lines.join('\n'),
+        relevanceScore: 1.0,
+        matchLines: block.matchLines,
+        queries: [pattern],
+      });
+      block = null;
+    };
 
-    for (const line of lines) {
+    for (const line of output.split('\n').filter(Boolean)) {
+      let msg: any;
       try {
-        const msg = JSON.parse(line);
-        if (msg.type === 'match') {
-          const path = msg.data.path;
-          if (!fileMatches[path]) fileMatches[path] = [];
-
-          fileMatches[path].push({
-            line: msg.data.line_number,
-            content: msg.data.lines,
-            // Capture submatches if needed
-          });
-        }
-        // Note: In professional implementations, we'd also parse 'context' messages 
-        // to build a continuous block of code. For now, we'll return targeted matches.
-      } catch (e) {
+        msg = JSON.parse(line);
+      } catch {
         continue;
       }
-    }
+      if (msg.type !== 'match' && msg.type !== 'context') continue;
+
+      // Paths and lines that are not valid UTF-8 arrive base64-encoded in `bytes`; those are skipped
+      const file = msg.data.path?.text;
+      const text = msg.data.lines?.text;
+      const lineNumber = msg.data.line_number;
+      if (file === undefined || text === undefined || typeof lineNumber !== 'number') continue;
 
-    for (const [file, matches] of Object.entries(fileMatches)) {
-      for (const match of matches) {
-        snippets.push({
-          file,
-          startLine: Math.max(1, match.line - 2), // Rough estimate for display
-          endLine: match.line + 2,
-          content: match.content,
-          relevanceScore: 1.0,
-        });
+      if (!block || block.file !== file || lineNumber !== block.startLine + block.lines.length) {
+        flush();
+        block = { file, startLine: lineNumber, lines: [], matchLines: [] };
       }
+      block.lines.push(text.replace(/\r?\n$/, ''));
+      if (msg.type === 'match') block.matchLines.push(lineNumber);
     }
+    flush();
 
-    return snippets;
+    // A block of pure context can only come from a truncated stream
+    return snippets.filter(s => s.matchLines!.length > 0);
   }
 }
-
@@ -0,0 +1,109 @@
+import { CodeSnippet } from '../../types';
+
+export interface RankingHints {
+  keywords?: string[];
+  mentionedFiles?: string[];
+  /** Number of snippets to keep. */
+  limit?: number;
+}
+
+const DEFAULT_LIMIT = 15;
+
+/**
+ * Merges snippets of the same file whose line ranges overlap or touch into one block,
+ * which also removes duplicates found by several queries. The queries and matched lines
+ * of the merged snippets are combined.
+ */
+export function mergeSnippets(snippets: CodeSnippet[]): CodeSnippet[] {
+  const byFile = new Map<string, CodeSnippet[]>();
+  for (const snippet of snippets) {
+    const file = normalizePath(snippet.file);
+    byFile.set(file, [...(byFile.get(file) || []), { ...snippet, file }]);
+  }
+
+  const merged: CodeSnippet[] = [];
+  for (const fileSnippets of byFile.values()) {
+    const sorted = fileSnippets.sort((a, b) => a.startLine - b.startLine);
+    let current = sorted[0];
+    for (const next of sorted.slice(1)) {
+      if (next.startLine <= current.endLine + 1) {
+        current = combine(current, next);
+      } else {
+        merged.push(current);
+        current = next;
+      }
+    }
+    merged.push(current);
+  }
+  return merged;
+}
+
+function combine(a: CodeSnippet, b: CodeSnippet): CodeSnippet {
+  const lines = new Map<number, string>();
+  splitLines(b).forEach((line, i) => lines.set(b.startLine + i, line));
+  splitLines(a).forEach((line, i) => lines.set(a.startLine + i, line));
+
+  const startLine = Math.min(a.startLine, b.startLine);
+  const endLine = Math.max(a.endLine, b.endLine);
+  const content = Array.from({ length: endLine - startLine + 1 }, (_, i) => lines.get(startLine + i) ?? '').join('\n');
+
+  return {
+    file: a.file,
+    startLine,
+    endLine,
+    content,
+    relevanceScore: Math.max(a.relevanceScore, b.relevanceScore),
+    matchLines: unique([...(a.matchLines || []), ...(b.matchLines || [])]).sort((x, y) => x - y),
+    queries: unique([...(a.queries || []), ...(b.queries || [])]),
+  };
+}
+
+/**
+ * Scores snippets by how many queries found them, how many issue keywords they contain and
+ * whether their file is mentioned in the issue, then keeps the best ones. Scores are
+ * normalized so the top snippet has a relevance of 1.
+ */
+export function rankSnippets(snippets: CodeSnippet[], hints: RankingHints = {}): CodeSnippet[] {
+  const keywords = (hints.keywords || []).map(k => k.toLowerCase()).filter(Boolean);
+  const mentioned = (hints.mentionedFiles || []).map(normalizePath);
+
+  const scored = snippets.map(snippet => {
+    const text = snippet.content.toLowerCase();
+    // Snippets added as neighbours of a hit carry no query of their own
+    const queryHits = snippet.queries?.length ?? 1;
+    const keywordHits = keywords.filter(k => text.includes(k)).length;
+    const isMentioned = isMentionedFile(snippet.file, mentioned);
+    const matchCount = snippet.matchLines?.length || 1;
+
+    const score = queryHits * 3 + keywordHits * 2 + (isMentioned ? 5 : 0) + Math.min(matchCount, 5) * 0.5;
+    return { snippet, score };
+  });
+
+  scored.sort((a, b) => b.score - a.score || a.snippet.file.localeCompare(b.snippet.file) || a.snippet.startLine - b.snippet.startLine);
+  const top = scored[0]?.score || 1;
+
+  return scored
+    .slice(0, hints.limit ?? DEFAULT_LIMIT)
+    .map(({ snippet, score }) => ({ ...snippet, relevanceScore: Math.round((score / top) * 100) / 100 }));
+}
+
+/**
+ * Whether `file` is one of the `mentioned` paths, which issues often give relative to a
+ * package or source directory.
+ */
+export function isMentionedFile(file: string, mentioned: string[]): boolean {
+  const normalized = normalizePath(file);
+  return mentioned.map(normalizePath).some(m => normalized === m || normalized.endsWith(`/${m}`));
+}
+
+function splitLines(snippet: CodeSnippet): string[] {
+  return snippet.content.replace(/\n$/, '').split('\n');
+}
+
+function normalizePath(file: string): string {
+  return file.replace(/\\/g, '/').replace(/^\.\//, '');
+}
+
+function unique<T>(values: T[]): T[] {
+  return Array.from(new Set(values));
+}
@@ -0,0 +1,437 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { CodeSnippet, CodeSymbol, SearchQuery, SymbolKind } from '../../types';
+import { logger } from '../../utils/logger';
+import { listRepoFiles } from './files';
+import { trace } from '../../utils/trace';
+
+type Language = 'script' | 'python' | 'go';
+
+const LANGUAGES: Record<string, Language> = {
+  '.ts': 'script',
+  '.tsx': 'script',
+  '.mts': 'script',
+  '.cts': 'script',
+  '.js': 'script',
+  '.jsx': 'script',
+  '.mjs': 'script',
+  '.cjs': 'script',
+  '.py': 'python',
+  '.go': 'go',
+};
+
+/** Definitions longer than this are too large to replace a search window with. */
+const MAX_DEFINITION_LINES = 200;
+/** How many expanded definitions get their callers and callees added. */
+const RELATED_FROM = 3;
+const RELATED_PER_SYMBOL = 3;
+const NOT_METHODS = new Set(['if', 'for', 'while', 'switch', 'catch', 'return', 'function', 'with', 'elif', 'else']);
+
+/**
+ * Where a symbol is called, with the definition that contains the call if there is one.
+ */
+export interface CallSite {
+  file: string;
+  line: number;
+  symbol?: CodeSymbol;
+}
+
+interface Definition {
+  kind: SymbolKind;
+  name: string;
+  exported: boolean;
+}
+
+const SCRIPT_DEFINITIONS: { regex: RegExp; kind: SymbolKind }[] = [
+  { regex: /^(export\s+)?(?:default\s+)?(?:declare\s+)?(?:async\s+)?function\s*\*?\s*([A-Za-z_$][\w$]*)/, kind: 'function' },
+  { regex: /^(export\s+)?(?:default\s+)?(?:declare\s+)?(?:abstract\s+)?class\s+([A-Za-z_$][\w$]*)/, kind: 'class' },
+  { regex: /^(export\s+)?(?:declare\s+)?interface\s+([A-Za-z_$][\w$]*)/, kind: 'interface' },
+  { regex: /^(export\s+)?(?:declare\s+)?type\s+([A-Za-z_$][\w$]*)\s*(?:<[^=]*>)?\s*=/, kind: 'type' },
+  { regex: /^(export\s+)?(?:const|let|var)\s+([A-Za-z_$][\w$]*)\s*(?::[^=]+)?=\s*(?:async\s+)?(?:function\b|(?:\([^)]*\)|[A-Za-z_$][\w$]*)\s*(?::[^=]+)?=>)/, kind: 'function' },
+  { regex: /^(export\s+)(?:const|let|var)\s+([A-Za-z_$][\w$]*)/, kind: 'variable' },
+];
+
+const SCRIPT_METHOD = /^\s+(?:(?:public|private|protected|static|async|override|readonly|abstract|get|set)\s+)*\*?\s*([A-Za-z_$][\w$]*)\s*(?:<[^>]*>)?\s*\(/;
+
+/**
+ * Definitions of a repository's functions, classes, methods and exports, found with
+ * per-language patterns (TypeScript/JavaScript, Python, Go). Definitions span their whole
+ * body: braces are balanced for brace languages, indentation decides for Python.
+ */
+export class SymbolIndex {
+  /** `file:line:name` of every definition line, so a definition is not taken for a call. */
+  private headers = new Set<string>();
+
+  private constructor(private files: Map<string, string[]>, readonly symbols: CodeSymbol[]) {
+    for (const symbol of symbols) {
+      this.headers.add(`${symbol.file}:${headerLine(files.get(symbol.file)!, symbol)}:${symbol.name}`);
+    }
+  }
+
+  /**
+   * Indexes every supported source file under `root`, skipping dependency and build directories.
+   */
+  static async build(root: string): Promise<SymbolIndex> {
+    const sources: Record<string, string> = {};
+    for (const file of await listRepoFiles(root, file => Boolean(LANGUAGES[path.extname(file)]))) {
+      try {
+        sources[file] = await fs.readFile(path.join(root, file), 'utf8');
+      } catch (error: any) {
+        logger.debug(`Skipping ${file} in symbol index: ${error.message}`);
+      }
+    }
+    const index = SymbolIndex.fromSources(sources);
+    logger.debug(`Symbol index: ${index.symbols.length} definitions in ${Object.keys(sources).length} files`);
+    return index;
+  }
+
+  static fromSources(sources: Record<string, string>): SymbolIndex {
+    const files = new Map<string, string[]>();
+    const symbols: CodeSymbol[] = [];
+    for (const [file, content] of Object.entries(sources)) {
+      const language = LANGUAGES[path.extname(file)];
+      if (!language) continue;
+
+      const lines = content.split(/\r?\n/);
+      files.set(file, lines);
+      const found = language === 'python' ? scanPython(lines) : scanBraceLanguage(lines, language);
+      symbols.push(...found.map(symbol => ({ ...symbol, file })));
+    }
+    return new SymbolIndex(files, symbols);
+  }
+
+  /**
+   * Definitions named `name`; methods also answer to `Container.name`.
+   */
+  definitions(name: string): CodeSymbol[] {
+    return this.symbols.filter(s => s.name === name || (s.container && `${s.container}.${s.name}` === name));
+  }
+
+  /**
+   * The innermost definition that contains the line.
+   */
+  enclosing(file: string, line: number): CodeSymbol | undefined {
+    return this.symbols
+      .filter(s => s.file === file && s.startLine <= line && s.endLine >= line)
+      .sort((a, b) => (a.endLine - a.startLine) - (b.endLine - b.startLine))[0];
+  }
+
+  callers(name: string): CallSite[] {
+    const simpleName = name.split('.').pop()!;
+    const call = new RegExp(`(?<![\\w$])${escapeRegex(simpleName)}\\s*\\(`);
+    const sites: CallSite[] = [];
+
+    for (const [file, lines] of this.files) {
+      lines.forEach((text, i) => {
+        const line = i + 1;
+        if (!call.test(text) || this.headers.has(`${file}:${line}:${simpleName}`)) return;
+        sites.push({ file, line, symbol: this.enclosing(file, line) });
+      });
+    }
+    return sites;
+  }
+
+  /**
+   * Indexed definitions called from inside the symbol's body, preferring ones in the same file.
+   */
+  callees(symbol: CodeSymbol): CodeSymbol[] {
+    const lines = this.files.get(symbol.file)!;
+    const body = lines.slice(headerLine(lines, symbol) - 1, symbol.endLine).join('\n');
+    const names = new Set(Array.from(body.matchAll(/(?<![\w$])([A-Za-z_$][\w$]*)\s*\(/g), m => m[1]));
+
+    const callees: CodeSymbol[] = [];
+    for (const name of names) {
+      if (name === symbol.name) continue;
+      const candidates = this.symbols.filter(s => s.name === name && (s.kind === 'function' || s.kind === 'method' || s.kind === 'class'));
+      const callee = candidates.find(s => s.file === symbol.file) || candidates[0];
+      if (callee) callees.push(callee);
+    }
+    return callees;
+  }
+
+  toSnippet(symbol: CodeSymbol, queries: string[] = []): CodeSnippet {
+    const lines = this.files.get(symbol.file)!;
+    return {
+      file: symbol.file,
+      startLine: symbol.startLine,
+      endLine: symbol.endLine,
+      content: lines.slice(symbol.startLine - 1, symbol.endLine).join('\n'),
+      relevanceScore: 1.0,
+      matchLines: [headerLine(lines, symbol)],
+      queries,
+    };
+  }
+
+  /**
+   * Answers `definition` and `callers` search queries.
+   */
+  lookup(query: SearchQuery): CodeSnippet[] {
+    const start = Date.now();
+    let snippets: CodeSnippet[];
+    if (query.kind === 'callers') {
+      snippets = this.callers(query.pattern).map(site => site.symbol
+        ? { ...this.toSnippet(site.symbol, [`callers:${query.pattern}`]), matchLines: [site.line] }
+        : this.window(site.file, site.line, query.contextLines, [`callers:${query.pattern}`]));
+    } else {
+      snippets = this.definitions(query.pattern).map(s => this.toSnippet(s, [`definition:${query.pattern}`]));
+    }
+    trace('search', { kind: query.kind, pattern: query.pattern, hits: snippets.length, durationMs: Date.now() - start });
+    return snippets;
+  }
+
+  /**
+   * Widens search windows to the whole definitions that contain their matches, then adds
+   * the callees and callers of the first few definitions. Added neighbours carry no query,
+   * so they rank below direct hits.
+   */
+  expand(snippets: CodeSnippet[]): CodeSnippet[] {
+    const expanded: CodeSnippet[] = [];
+    const definitions: CodeSymbol[] = [];
+
+    for (const snippet of snippets) {
+      const matchLines = snippet.matchLines?.length ? snippet.matchLines : [snippet.startLine];
+      const enclosing = unique(matchLines.map(line => this.enclosing(snippet.file, line)))
+        .filter((s): s is CodeSymbol => Boolean(s) && s!.endLine - s!.startLine < MAX_DEFINITION_LINES);
+
+      const uncovered = matchLines.filter(line => !enclosing.some(s => s.startLine <= line && s.endLine >= line));
+      if (uncovered.length > 0) {
+        expanded.push(snippet);
+      }
+      for (const symbol of enclosing) {
+        const covered = matchLines.filter(line => symbol.startLine <= line && symbol.endLine >= line);
+        expanded.push({ ...this.toSnippet(symbol, snippet.queries), matchLines: covered });
+        if (!definitions.includes(symbol)) definitions.push(symbol);
+      }
+    }
+
+    for (const symbol of definitions.slice(0, RELATED_FROM)) {
+      const related = [
+        ...this.callees(symbol).slice(0, RELATED_PER_SYMBOL),
+        ...this.callers(symbol.name).map(site => site.symbol).filter((s): s is CodeSymbol => Boolean(s) && s !== symbol).slice(0, RELATED_PER_SYMBOL),
+      ];
+      for (const neighbour of unique(related)) {
+        if (neighbour.endLine - neighbour.startLine < MAX_DEFINITION_LINES) {
+          expanded.push(this.toSnippet(neighbour));
+        }
+      }
+    }
+    return expanded;
+  }
+
+  private window(file: string, line: number, contextLines = 5, queries: string[] = []): CodeSnippet {
+    const lines = this.files.get(file)!;
+    const startLine = Math.max(1, line - contextLines);
+    const endLine = Math.min(lines.length, line + contextLines);
+    return {
+      file,
+      startLine,
+      endLine,
+      content: lines.slice(startLine - 1, endLine).join('\n'),
+      relevanceScore: 1.0,
+      matchLines: [line],
+      queries,
+    };
+  }
+}
+
+type ScannedSymbol = Omit<CodeSymbol, 'file'>;
+
+function scanBraceLanguage(lines: string[], language: Language): ScannedSymbol[] {
+  const symbols: ScannedSymbol[] = [];
+
+  lines.forEach((line, i) => {
+    const definition = language === 'go' ? matchGo(line) : matchScript(line);
+    if (!definition) return;
+
+    const symbol: ScannedSymbol = { ...definition, startLine: i + 1, endLine: findBlockEnd(lines, i) };
+    symbols.push(symbol);
+    if (language === 'script' && symbol.kind === 'class') {
+      symbols.push(...scanScriptMethods(lines, symbol));
+    }
+  });
+
+  return symbols;
+}
+
+function matchScript(line: string): (Definition & { container?: string }) | null {
+  for (const { regex, kind } of SCRIPT_DEFINITIONS) {
+    const match = line.match(regex);
+    if (match) return { kind, name: match[2], exported: Boolean(match[1]) };
+  }
+  return null;
+}
+
+function matchGo(line: string): (Definition & { container?: string }) | null {
+  const func = line.match(/^func\s+(?:\(\s*\w*\s*\*?\s*([A-Za-z_]\w*)(?:\[[^\]]*\])?\s*\)\s*)?([A-Za-z_]\w*)/);
+  if (func) {
+    return { kind: func[1] ? 'method' : 'function', name: func[2], exported: /^[A-Z]/.test(func[2]), container: func[1] };
+  }
+  const type = line.match(/^type\s+([A-Za-z_]\w*)(?:\[[^\]]*\])?\s+(struct|interface)?/);
+  if (type) {
+    const kind: SymbolKind = type[2] === 'struct' ? 'class' : type[2] === 'interface' ? 'interface' : 'type';
+    return { kind, name: type[1], exported: /^[A-Z]/.test(type[1]) };
+  }
+  return null;
+}
+
+function scanScriptMethods(lines: string[], cls: ScannedSymbol): ScannedSymbol[] {
+  const methods: ScannedSymbol[] = [];
+  const state = { inComment: false };
+  let depth = 0;
+
+  for (let i = cls.startLine - 1; i < cls.endLine; i++) {
+    const code = stripCode(lines[i], state);
+    if (depth === 1 && i > cls.startLine - 1) {
+      const match = lines[i].match(SCRIPT_METHOD);
+      if (match && !NOT_METHODS.has(match[1]) && !/;\s*$/.test(code)) {
+        methods.push({ kind: 'method', name: match[1], exported: cls.exported, container: cls.name, startLine: i + 1, endLine: findBlockEnd(lines, i) });
+      }
+    }
+    for (const ch of code) {
+      if (ch === '{') depth++;
+      else if (ch === '}') depth--;
+    }
+  }
+  return methods;
+}
+
+/**
+ * Last line (1-based) of the definition starting at `start`: where its braces balance, or
+ * where the statement ends if it has no braced body.
+ */
+function findBlockEnd(lines: string[], start: number): number {
+  const state = { inComment: false };
+  let braces = 0;
+  let parens = 0;
+  let opened = false;
+
+  for (let i = start; i < lines.length && i < start + 5000; i++) {
+    const code = stripCode(lines[i], state);
+    for (const ch of code) {
+      if (ch === '(' || ch === '[') parens++;
+      else if (ch === ')' || ch === ']') parens--;
+      else if (ch === '{' && parens <= 0) {
+        braces++;
+        opened = true;
+      } else if (ch === '}' && parens <= 0) {
+        braces--;
+      }
+    }
+    if (opened && braces <= 0) return i + 1;
+    if (!opened && parens <= 0 && !/[,(=>+\-*/.?:|&]\s*$/.test(code.trim())) return i + 1;
+  }
+  return start + 1;
+}
+
+/**
+ * Removes string literals, regex literals and comments from a line so their brackets are not
+ * counted. A `/` starts a regex where an operand is expected, i.e. not after a value.
+ */
+function stripCode(line: string, state: { inComment: boolean }): string {
+  let result = '';
+  let quote: string | null = null;
+
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    const next = line[i + 1];
+    if (state.inComment) {
+      if (ch === '*' && next === '/') {
+        state.inComment = false;
+        i++;
+      }
+    } else if (quote) {
+      if (ch === '\\') i++;
+      else if (ch === quote) quote = null;
+    } else if (ch === '/' && next === '/') {
+      break;
+    } else if (ch === '/' && next === '*') {
+      state.inComment = true;
+      i++;
+    } else if (ch === '"' || ch === "'" || ch === '`') {
+      quote = ch;
+    } else if (ch === '/' && /(^|[(,=:[!&|?{};+\-*%<>~^]|\breturn|\btypeof)\s*$/.test(result)) {
+      let inClass = false;
+      for (i++; i < line.length; i++) {
+        if (line[i] === '\\') i++;
+        else if (line[i] === '[') inClass = true;
+        else if (line[i] === ']') inClass = false;
+        else if (line[i] === '/' && !inClass) break;
+      }
+    } else {
+      result += ch;
+    }
+  }
+  return result;
+}
+
+function scanPython(lines: string[]): ScannedSymbol[] {
+  const symbols: ScannedSymbol[] = [];
+  const classes: ScannedSymbol[] = [];
+
+  lines.forEach((line, i) => {
+    const match = line.match(/^(\s*)(?:async\s+)?(def|class)\s+([A-Za-z_]\w*)/);
+    if (!match) return;
+
+    const indent = match[1].length;
+    const endLine = findIndentedBlockEnd(lines, i, indent);
+    let startLine = i + 1;
+    while (startLine > 1 && /^\s*@/.test(lines[startLine - 2])) startLine--;
+
+    const container = classes.filter(c => c.startLine <= i + 1 && c.endLine >= i + 1 && indentOf(lines, c) < indent).pop();
+    const name = match[3];
+    const symbol: ScannedSymbol = {
+      kind: match[2] === 'class' ? 'class' : container ? 'method' : 'function',
+      name,
+      exported: !name.startsWith('_') || /^__\w+__$/.test(name),
+      startLine,
+      endLine,
+      container: container?.name,
+    };
+    symbols.push(symbol);
+    if (symbol.kind === 'class') classes.push(symbol);
+  });
+
+  return symbols;
+}
+
+function indentOf(lines: string[], symbol: ScannedSymbol): number {
+  return lines[headerLine(lines, symbol) - 1].match(/^\s*/)![0].length;
+}
+
+function findIndentedBlockEnd(lines: string[], start: number, indent: number): number {
+  // The signature may span several lines before the colon that opens the body
+  let i = start;
+  let parens = 0;
+  for (; i < lines.length; i++) {
+    for (const ch of lines[i].replace(/#.*$/, '')) {
+      if ('([{'.includes(ch)) parens++;
+      else if (')]}'.includes(ch)) parens--;
+    }
+    if (parens <= 0 && /:\s*(#.*)?$/.test(lines[i])) break;
+  }
+
+  let end = i + 1;
+  for (let j = i + 1; j < lines.length; j++) {
+    if (lines[j].trim() === '') continue;
+    if (lines[j].match(/^\s*/)![0].length <= indent) break;
+    end = j + 1;
+  }
+  return end;
+}
+
+/**
+ * Line of the definition itself, after any decorators.
+ */
+function headerLine(lines: string[], symbol: Pick<CodeSymbol, 'startLine'>): number {
+  let line = symbol.startLine;
+  while (line < lines.length && /^\s*@/.test(lines[line - 1])) line++;
+  return line;
+}
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function unique<T>(values: T[]): T[] {
+  return Array.from(new Set(values));
+}
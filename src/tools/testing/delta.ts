@@ -0,0 +1,61 @@
+import { TestDelta, TestResult } from '../../types';
+
+export interface VerificationVerdict {
+  passed: boolean;
+  delta?: TestDelta;
+  /** Why the run was rejected, in terms the engineer can act on. */
+  reason?: string;
+}
+
+/**
+ * Compares a run with the baseline by test case name. Tests missing from the baseline count
+ * as new: failing ones are regressions and passing ones are improvements.
+ */
+export function compareToBaseline(baseline: TestResult, result: TestResult): TestDelta | undefined {
+  if (!baseline.cases?.length || !result.cases?.length) return undefined;
+
+  const before = new Map(baseline.cases.map(c => [c.name, c.status]));
+  const delta: TestDelta = { newlyFailing: [], newlyPassing: [], stillFailing: [] };
+
+  for (const testCase of result.cases) {
+    const previous = before.get(testCase.name);
+    if (testCase.status === 'failed') {
+      (previous === 'failed' ? delta.stillFailing : delta.newlyFailing).push(testCase.name);
+    } else if (testCase.status === 'passed' && previous !== 'passed') {
+      delta.newlyPassing.push(testCase.name);
+    }
+  }
+
+  return delta;
+}
+
+/**
+ * Decides whether a post-fix run is acceptable given the baseline.
+ *
+ * A run that breaks tests which passed before is always rejected. Without a failing baseline
+ * the exit code decides, as before. When tests already failed on the unmodified code, those
+ * failures are tolerated as long as the fix demonstrably helped: some test now passes that did
+ * not before, or the regression test written for the issue passes. If test cases cannot be
+ * told apart, the exit code decides, since regressions could not be ruled out.
+ */
+export function judgeAgainstBaseline(
+  baseline: TestResult | undefined,
+  result: TestResult,
+  reproductionPassed = false
+): VerificationVerdict {
+  const delta = baseline ? compareToBaseline(baseline, result) : undefined;
+
+  if (delta && delta.newlyFailing.length > 0) {
+    return { passed: false, delta, reason: `The change broke tests that passed before it: ${delta.newlyFailing.join(', ')}` };
+  }
+  if (result.passed) {
+    return { passed: true, delta };
+  }
+  if (baseline && !baseline.passed && delta) {
+    if (delta.newlyPassing.length > 0 || reproductionPassed) {
+      return { passed: true, delta };
+    }
+    return { passed: false, delta, reason: `No test changed outcome; still failing as before the change: ${delta.stillFailing.join(', ')}` };
+  }
+  return { passed: false, delta };
+}
@@ -0,0 +1,26 @@
+import { CommandResult, TestResult } from '../../types';
+import { scanTestOutput } from './scanner';
+
+export { scanTestOutput } from './scanner';
+export { parseCargoOutput, parseGoTestJson, parseJestJson, parseJUnitXml } from './reporters';
+export { planTestRun, runTestSuite, ReportFormat, TestRunPlan } from './runner';
+export { describeFailures, failedBeforeTests, failingCases, tail } from './summary';
+export { compareToBaseline, judgeAgainstBaseline, VerificationVerdict } from './delta';
+
+export function toTestResult(result: CommandResult): TestResult {
+  return {
+    passed: result.exitCode === 0,
+    output: result.stdout,
+    error: result.stderr,
+    exitCode: result.exitCode,
+    duration: result.duration,
+  };
+}
+
+/**
+ * Fills in the individual test cases of a run from its output.
+ */
+export function withTestCases(result: TestResult): TestResult {
+  const cases = scanTestOutput(`${result.output}\n${result.error}`);
+  return cases.length > 0 ? { ...result, cases } : result;
+}
@@ -0,0 +1,210 @@
+import { TestCase, TestCaseStatus } from '../../types';
+
+/**
+ * Parsers for the machine-readable reports of common test runners. Each returns an empty
+ * list when the input is not a report of that kind, so callers can fall back to scanning
+ * the console output.
+ */
+
+const ANSI = new RegExp(`${String.fromCharCode(27)}\\[[0-9;]*m`, 'g');
+
+/**
+ * Jest `--json` report. Vitest's `json` reporter writes the same shape.
+ * Suites that fail before running any test (syntax errors, missing modules) are reported
+ * as a single failing case named after the file.
+ */
+export function parseJestJson(text: string): TestCase[] {
+  let report: any;
+  try {
+    report = JSON.parse(text);
+  } catch {
+    return [];
+  }
+
+  const cases: TestCase[] = [];
+  for (const suite of report?.testResults || []) {
+    const assertions: any[] = suite.assertionResults || [];
+    if (assertions.length === 0 && suite.status === 'failed') {
+      cases.push({ name: suite.name, file: suite.name, status: 'failed', message: cleanMessage(suite.message) });
+      continue;
+    }
+
+    for (const assertion of assertions) {
+      cases.push({
+        name: assertion.fullName || [...(assertion.ancestorTitles || []), assertion.title].join(' '),
+        file: suite.name,
+        status: jestStatus(assertion.status),
+        duration: typeof assertion.duration === 'number' ? Math.round(assertion.duration) : undefined,
+        message: cleanMessage((assertion.failureMessages || []).join('\n')),
+      });
+    }
+  }
+  return cases;
+}
+
+function jestStatus(status: string): TestCaseStatus {
+  if (status === 'passed') return 'passed';
+  if (status === 'failed') return 'failed';
+  return 'skipped';
+}
+
+/**
+ * JUnit XML as written by pytest `--junitxml`, Maven Surefire, Gradle and most other runners.
+ * Several concatenated report files can be parsed at once.
+ */
+export function parseJUnitXml(xml: string): TestCase[] {
+  const cases: TestCase[] = [];
+  const testcase = /<testcase\b([^>]*?)(?:\/>|>([\s\S]*?)<\/testcase>)/g;
+
+  for (const match of xml.matchAll(testcase)) {
+    const attributes = parseAttributes(match[1]);
+    const body = match[2] || '';
+    const failure = body.match(/<(failure|error)\b([^>]*?)(?:\/>|>([\s\S]*?)<\/\1>)/);
+
+    let status: TestCaseStatus = 'passed';
+    let message: string | undefined;
+    if (failure) {
+      status = 'failed';
+      const failureMessage = parseAttributes(failure[2]).message;
+      message = [failureMessage, failure[3] && decodeXml(stripCData(failure[3]))].filter(Boolean).join('\n');
+    } else if (/<skipped\b/.test(body)) {
+      status = 'skipped';
+    }
+
+    const { classname, name, file, time } = attributes;
+    cases.push({
+      name: classname ? `${classname}.${name}` : name,
+      file,
+      status,
+      duration: time ? Math.round(parseFloat(time) * 1000) : undefined,
+      message: cleanMessage(message),
+    });
+  }
+  return cases;
+}
+
+function parseAttributes(text: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const [, key, double, single] of text.matchAll(/([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+    attributes[key] = decodeXml(double ?? single);
+  }
+  return attributes;
+}
+
+function stripCData(text: string): string {
+  return text.replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1');
+}
+
+function decodeXml(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCharCode(parseInt(code, 16)))
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * `go test -json` event stream. Output lines are collected per test and become the failure
+ * message; a package that fails without a failing test (usually a build error) is reported
+ * as a failing case named after the package.
+ */
+export function parseGoTestJson(text: string): TestCase[] {
+  const cases = new Map<string, TestCase>();
+  const output = new Map<string, string[]>();
+  const failedPackages = new Set<string>();
+
+  for (const line of text.split(/\r?\n/)) {
+    if (!line.startsWith('{')) continue;
+    let event: any;
+    try {
+      event = JSON.parse(line);
+    } catch {
+      continue;
+    }
+
+    const key = event.Test ? `${event.Package}::${event.Test}` : event.Package;
+    if (!key) continue;
+
+    if (event.Action === 'output' || event.Action === 'build-output') {
+      const lines = output.get(key) || [];
+      lines.push(String(event.Output ?? '').trimEnd());
+      output.set(key, lines);
+    } else if (['pass', 'fail', 'skip'].includes(event.Action)) {
+      if (!event.Test) {
+        if (event.Action === 'fail') failedPackages.add(event.Package);
+        continue;
+      }
+      cases.set(key, {
+        name: key,
+        file: event.Package,
+        status: event.Action === 'pass' ? 'passed' : event.Action === 'skip' ? 'skipped' : 'failed',
+        duration: typeof event.Elapsed === 'number' ? Math.round(event.Elapsed * 1000) : undefined,
+      });
+    }
+  }
+
+  for (const [key, testCase] of cases) {
+    if (testCase.status === 'failed') {
+      testCase.message = goMessage(output.get(key));
+    }
+  }
+  for (const pkg of failedPackages) {
+    const hasFailingTest = Array.from(cases.values()).some(c => c.file === pkg && c.status === 'failed');
+    if (!hasFailingTest) {
+      cases.set(pkg, { name: pkg, file: pkg, status: 'failed', message: goMessage(output.get(pkg)) });
+    }
+  }
+  return Array.from(cases.values());
+}
+
+function goMessage(lines: string[] = []): string | undefined {
+  // Drop the runner's own bookkeeping lines and keep what the test printed
+  return cleanMessage(lines.filter(l => !/^\s*(=== (RUN|PAUSE|CONT)|--- (PASS|FAIL|SKIP):|(PASS|FAIL|ok)\b)/.test(l)).join('\n'));
+}
+
+/**
+ * `cargo test` console output. The failure message is taken from the `---- name stdout ----`
+ * section libtest prints for each failing test.
+ */
+export function parseCargoOutput(text: string): TestCase[] {
+  const cases = new Map<string, TestCase>();
+  const lines = text.split(/\r?\n/);
+
+  for (const line of lines) {
+    const match = line.match(/^test (\S+) \.\.\. (ok|FAILED|ignored)\b/);
+    if (match) {
+      cases.set(match[1], { name: match[1], status: match[2] === 'ok' ? 'passed' : match[2] === 'FAILED' ? 'failed' : 'skipped' });
+    }
+  }
+
+  let current: string[] | undefined;
+  let currentName = '';
+  const flush = () => {
+    const testCase = cases.get(currentName);
+    if (current && testCase) testCase.message = cleanMessage(current.join('\n'));
+    current = undefined;
+  };
+  for (const line of lines) {
+    const header = line.match(/^---- (\S+) stdout ----$/);
+    if (header) {
+      flush();
+      currentName = header[1];
+      current = [];
+    } else if (current && (/^failures:\s*$/.test(line) || /^test result:/.test(line))) {
+      flush();
+    } else if (current) {
+      current.push(line);
+    }
+  }
+  flush();
+
+  return Array.from(cases.values());
+}
+
+function cleanMessage(message: string | undefined): string | undefined {
+  const cleaned = message?.replace(ANSI, '').trim();
+  return cleaned || undefined;
+}
@@ -0,0 +1,129 @@
+import path from 'path';
+import { RepoFingerprint, Sandbox, TestCase, TestResult } from '../../types';
+import { logger } from '../../utils/logger';
+import { parseCargoOutput, parseGoTestJson, parseJestJson, parseJUnitXml } from './reporters';
+import { scanTestOutput } from './scanner';
+
+export type ReportFormat = 'jest-json' | 'junit-xml' | 'go-json' | 'cargo';
+
+/**
+ * How to run a test command so that it leaves a machine-readable report behind.
+ */
+export interface TestRunPlan {
+  command: string;
+  format?: ReportFormat;
+  /** Report written by the runner, relative to the directory the command runs in. Removed after reading. */
+  reportFile?: string;
+  /** Directories of JUnit files written by build tools that cannot be pointed at a single file. */
+  reportDirs?: string[];
+}
+
+const REPORT_FILE = '.oss-dev-test-report';
+const SHELL_OPERATORS = /&&|\|\||[;|]/;
+const PACKAGE_SCRIPT = /^(npm|pnpm|yarn)(?: run)? test\s*$/;
+
+/**
+ * Adds reporter flags to a test command when the runner behind it is recognized. Commands
+ * that chain several steps are left alone, since the flags would reach the wrong program.
+ * `npm test` and friends are resolved through the `test` script in package.json.
+ */
+export function planTestRun(command: string, packageTestScript?: string): TestRunPlan {
+  const trimmed = command.trim();
+  const script = trimmed.match(PACKAGE_SCRIPT);
+  const runner = script ? packageTestScript || '' : trimmed;
+
+  if (/\bgo test\b/.test(trimmed) && !SHELL_OPERATORS.test(trimmed)) {
+    return { command: trimmed.replace(/\bgo test\b(?!.*\s-json\b)/, 'go test -json'), format: 'go-json' };
+  }
+  if (/\bcargo test\b/.test(trimmed)) {
+    return { command: trimmed, format: 'cargo' };
+  }
+  if (/\b(mvn|mvnw)\b/.test(runner)) {
+    return { command: trimmed, format: 'junit-xml', reportDirs: ['target/surefire-reports'] };
+  }
+  if (/\b(gradle|gradlew)\b/.test(runner)) {
+    return { command: trimmed, format: 'junit-xml', reportDirs: ['build/test-results/test'] };
+  }
+  if (!runner || SHELL_OPERATORS.test(runner)) {
+    return { command: trimmed };
+  }
+
+  // Arguments after `npm test` only reach the script behind a `--` separator
+  const extend = (args: string) => `${trimmed}${script?.[1] === 'npm' ? ' --' : ''} ${args}`;
+
+  if (/\bvitest\b/.test(runner)) {
+    const reportFile = `${REPORT_FILE}.json`;
+    return { command: extend(`--reporter=default --reporter=json --outputFile.json=${reportFile}`), format: 'jest-json', reportFile };
+  }
+  if (/\bjest\b/.test(runner)) {
+    const reportFile = `${REPORT_FILE}.json`;
+    return { command: extend(`--json --outputFile=${reportFile}`), format: 'jest-json', reportFile };
+  }
+  if (/\bpytest\b/.test(runner)) {
+    const reportFile = `${REPORT_FILE}.xml`;
+    return { command: extend(`--junitxml=${reportFile}`), format: 'junit-xml', reportFile };
+  }
+  return { command: trimmed };
+}
+
+/**
+ * Runs the test suite and fills in its individual cases, from the runner's report when
+ * one could be requested and from the console output otherwise. The command runs in the
+ * fingerprint's project root, so package.json and the report are looked up there.
+ */
+export async function runTestSuite(sandbox: Sandbox, command: string, fingerprint?: Pick<RepoFingerprint, 'projectRoot'>): Promise<TestResult> {
+  // Sandbox file paths are relative to the repository root
+  const inProject = (file: string) => path.posix.join(fingerprint?.projectRoot || '', file);
+  const plan = planTestRun(command, await readTestScript(sandbox, inProject('package.json')));
+  const result = await sandbox.runTests(plan.command);
+
+  let cases: TestCase[] = [];
+  try {
+    cases = await readReport(sandbox, plan, result, inProject);
+  } catch (e: any) {
+    logger.debug(`Could not read the ${plan.format} test report: ${e.message}`);
+  }
+  if (cases.length === 0) {
+    cases = scanTestOutput(`${result.output}\n${result.error}`);
+  }
+  return cases.length > 0 ? { ...result, cases } : result;
+}
+
+async function readTestScript(sandbox: Sandbox, packageFile: string): Promise<string | undefined> {
+  try {
+    if (!(await sandbox.exists(packageFile))) return undefined;
+    return JSON.parse(await sandbox.readFile(packageFile)).scripts?.test;
+  } catch {
+    return undefined;
+  }
+}
+
+async function readReport(
+  sandbox: Sandbox,
+  plan: TestRunPlan,
+  result: TestResult,
+  inProject: (file: string) => string
+): Promise<TestCase[]> {
+  switch (plan.format) {
+    case 'go-json':
+      return parseGoTestJson(result.output);
+    case 'cargo':
+      return parseCargoOutput(`${result.output}\n${result.error}`);
+    case 'jest-json':
+    case 'junit-xml': {
+      const parse = plan.format === 'jest-json' ? parseJestJson : parseJUnitXml;
+      if (plan.reportFile) {
+        const reportFile = inProject(plan.reportFile);
+        if (!(await sandbox.exists(reportFile))) return [];
+        const report = await sandbox.readFile(reportFile);
+        await sandbox.deleteFile(reportFile);
+        return parse(report);
+      }
+      const files = plan.reportDirs!.map(dir => `${dir}/*.xml`).join(' ');
+      const reports = await sandbox.runCommand(`cat ${files} 2>/dev/null`);
+      return parse(reports.stdout);
+    }
+    default:
+      return [];
+  }
+}
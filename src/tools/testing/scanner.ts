@@ -0,0 +1,85 @@
+import { TestCase, TestCaseStatus } from '../../types';
+
+interface LinePattern {
+  regex: RegExp;
+  /** Builds a case from the match; returns null to ignore the line. */
+  toCase: (match: RegExpMatchArray) => TestCase | null;
+}
+
+const statusFromWord = (word: string): TestCaseStatus => {
+  const normalized = word.toLowerCase();
+  if (['ok', 'pass', 'passed'].includes(normalized)) return 'passed';
+  if (['skip', 'skipped', 'ignored', 'xfail'].includes(normalized)) return 'skipped';
+  return 'failed';
+};
+
+const LINE_PATTERNS: LinePattern[] = [
+  // go test -v: --- PASS: TestAdd (0.00s)
+  {
+    regex: /^\s*--- (PASS|FAIL|SKIP): (\S+)(?: \(([\d.]+)s\))?/,
+    toCase: m => ({ name: m[2], status: statusFromWord(m[1]), duration: m[3] ? Math.round(parseFloat(m[3]) * 1000) : undefined }),
+  },
+  // cargo test: test math::adds ... ok
+  {
+    regex: /^test (\S+) \.\.\. (ok|FAILED|ignored)\b/,
+    toCase: m => ({ name: m[1], status: statusFromWord(m[2]) }),
+  },
+  // pytest -v: tests/test_math.py::test_add PASSED
+  {
+    regex: /^(\S+?\.py)::(\S+) (PASSED|FAILED|ERROR|SKIPPED|XFAIL)\b/,
+    toCase: m => ({ name: `${m[1]}::${m[2]}`, file: m[1], status: statusFromWord(m[3]) }),
+  },
+  // pytest short summary: FAILED tests/test_math.py::test_add - AssertionError: ...
+  {
+    regex: /^(FAILED|ERROR) (\S+?\.py)::(\S+?)(?: - (.*))?$/,
+    toCase: m => ({ name: `${m[2]}::${m[3]}`, file: m[2], status: 'failed', message: m[4] }),
+  },
+  // TAP: ok 1 - adds numbers / not ok 2 - subtracts
+  {
+    regex: /^(not ok|ok) \d+(?: -)? (.+?)(?: # (SKIP|TODO)\b.*)?$/i,
+    toCase: m => ({ name: m[2].trim(), status: m[3] ? 'skipped' : m[1].toLowerCase() === 'ok' ? 'passed' : 'failed' }),
+  },
+  // Jest, Vitest and Mocha spec reporters: ✓ adds numbers (3 ms) / ✕ subtracts / ○ skipped name
+  {
+    regex: /^\s+(✓|✔|√|✕|✖|×|○|↓)\s+(.+?)(?:\s+\((\d+(?:\.\d+)?) ?ms\))?\s*$/,
+    toCase: m => {
+      const status: TestCaseStatus = ['✓', '✔', '√'].includes(m[1]) ? 'passed' : ['○', '↓'].includes(m[1]) ? 'skipped' : 'failed';
+      const name = m[2].replace(/^skipped\s+/, '');
+      return { name, status, duration: m[3] ? Math.round(parseFloat(m[3])) : undefined };
+    },
+  },
+];
+
+/**
+ * Best-effort extraction of individual test cases from the console output of common test
+ * runners. Returns an empty list when no line looks like a test result. A test reported
+ * more than once keeps its worst status.
+ */
+export function scanTestOutput(output: string): TestCase[] {
+  const cases = new Map<string, TestCase>();
+
+  for (const line of output.split(/\r?\n/)) {
+    for (const { regex, toCase } of LINE_PATTERNS) {
+      const match = line.match(regex);
+      if (!match) continue;
+
+      const testCase = toCase(match);
+      if (testCase) {
+        const previous = cases.get(testCase.name);
+        if (!previous || rank(testCase.status) > rank(previous.status)) {
+          cases.set(testCase.name, { ...previous, ...testCase, message: testCase.message || previous?.message });
+        } else if (!previous.message && testCase.message && testCase.status === previous.status) {
+          // Runners such as pytest repeat failures in a summary that carries the message
+          previous.message = testCase.message;
+        }
+      }
+      break;
+    }
+  }
+
+  return Array.from(cases.values());
+}
+
+function rank(status: TestCaseStatus): number {
+  return status === 'failed' ? 2 : status === 'passed' ? 1 : 0;
+}
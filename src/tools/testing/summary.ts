@@ -0,0 +1,60 @@
+import { TestCase, TestResult } from '../../types';
+
+const MAX_LISTED_FAILURES = 15;
+const MAX_MESSAGE_LINES = 12;
+const MAX_OUTPUT_CHARS = 4000;
+// Signs that a runner or test file failed to start rather than a test failing
+const LOAD_ERRORS = /SyntaxError|Cannot find module|ERR_MODULE_NOT_FOUND|ModuleNotFoundError|ImportError|command not found|No such file or directory|no tests? (?:found|ran)/i;
+
+export function failingCases(result: TestResult): TestCase[] {
+  return (result.cases || []).filter(c => c.status === 'failed');
+}
+
+/**
+ * Describes why a test run failed in a form that fits in a prompt: the failing tests with
+ * their assertion messages when the cases are known, the end of the raw output otherwise.
+ */
+export function describeFailures(result: TestResult): string {
+  const failing = failingCases(result);
+  if (failing.length === 0) {
+    return tail(result.error || result.output);
+  }
+
+  const regressions = new Set(result.delta?.newlyFailing || []);
+  const lines = failing.slice(0, MAX_LISTED_FAILURES).map(c => {
+    const label = `- ${c.name}${c.file && !c.name.includes(c.file) ? ` (${c.file})` : ''}${regressions.has(c.name) ? ' [passed before the change]' : ''}`;
+    return c.message ? `${label}\n${indent(firstLines(c.message, MAX_MESSAGE_LINES))}` : label;
+  });
+  if (failing.length > MAX_LISTED_FAILURES) {
+    lines.push(`... and ${failing.length - MAX_LISTED_FAILURES} more failing tests`);
+  }
+  return `${failing.length} failing test${failing.length === 1 ? '' : 's'}:\n${lines.join('\n')}`;
+}
+
+/**
+ * Why a failed run never got as far as a test failing, or undefined if it did. Without cases
+ * to go by, an assertion is assumed unless the output shows the command or file did not load.
+ */
+export function failedBeforeTests(result: TestResult): string | undefined {
+  if (result.exitCode === 126 || result.exitCode === 127) {
+    return `the command could not be run (exit code ${result.exitCode})`;
+  }
+  if (result.cases?.length) {
+    return failingCases(result).length > 0 ? undefined : 'the run failed, but none of its tests did';
+  }
+  const loadError = `${result.output}\n${result.error}`.match(LOAD_ERRORS);
+  return loadError ? `the test did not load (${loadError[0]})` : undefined;
+}
+
+export function tail(text: string, max = MAX_OUTPUT_CHARS): string {
+  return text.length > max ? `...${text.slice(-max)}` : text;
+}
+
+function firstLines(text: string, count: number): string {
+  const lines = text.split(/\r?\n/);
+  return lines.length > count ? [...lines.slice(0, count), '...'].join('\n') : text;
+}
+
+function indent(text: string): string {
+  return text.split('\n').map(line => `    ${line}`).join('\n');
+}
@@ -16,8 +16,69 @@ export interface RepoFingerprint {
   packageManager: string;
   installCommand: string;
   testCommand: string;
+  /** Run after the tests pass; only set by repository configuration. */
+  lintCommand?: string;
   dependencies?: string[];
   projectRoot?: string;
+  /** Packages of an npm/pnpm/yarn/bun, Go or Cargo workspace rooted at `projectRoot`. */
+  workspace?: Workspace;
+}
+
+export interface WorkspacePackage {
+  name: string;
+  /** Directory relative to the repository root. */
+  path: string;
+  /** Runs only this package's tests, from the project root. Absent when it has none. */
+  testCommand?: string;
+  /** Names of the workspace packages it depends on. */
+  dependencies: string[];
+}
+
+export interface Workspace {
+  tool: 'npm' | 'pnpm' | 'yarn' | 'bun' | 'go' | 'cargo';
+  packages: WorkspacePackage[];
+}
+
+/**
+ * Per-repository settings from `.oss-dev.yml`, merged over the user-level config file.
+ */
+export interface RepoConfig {
+  commands?: { install?: string; test?: string; lint?: string };
+  /** Directory the commands run in, relative to the repository root. */
+  projectRoot?: string;
+  /** Gitignore-style patterns the agents neither search nor change. */
+  exclude?: string[];
+  llm?: Partial<LLMSelection>;
+  maxAttempts?: number;
+  /** Branch pull requests are opened against; default: the remote's default branch. */
+  baseBranch?: string;
+  /** Templates with `{{issue}}`, `{{problem}}`, `{{changes}}`, `{{explanation}}` and `{{body}}` (the generated body). */
+  pullRequest?: { title?: string; body?: string };
+  /** Added to the default change policy; `!pattern` lifts a default. */
+  policy?: Partial<ChangePolicy>;
+}
+
+/**
+ * What a fix may change. Checked before a change set is applied and again before it is committed.
+ */
+export interface ChangePolicy {
+  /** Gitignore-style patterns of paths that may not be created, edited, deleted or renamed. */
+  forbiddenPaths: string[];
+  /** File extensions that may not be changed, e.g. `.png`. */
+  forbiddenExtensions: string[];
+  /** Top-level `package.json` fields that may not change, e.g. `scripts`. */
+  protectedPackageFields: string[];
+  maxFiles: number;
+  /** Added plus removed lines over all files. */
+  maxLines: number;
+}
+
+/**
+ * Author and committer of the commits the agent makes.
+ */
+export interface GitIdentity {
+  name: string;
+  email: string;
 }
 
 export interface CodeSnippet {
@@ -26,25 +87,161 @@ export interface CodeSnippet {
   endLine: number;
   content: string;
   relevanceScore: number;
+  /** Lines that matched a search pattern, as opposed to surrounding context. */
+  matchLines?: number[];
+  /** Search patterns that found this snippet. */
+  queries?: string[];
+}
+
+export type SymbolKind = 'function' | 'method' | 'class' | 'interface' | 'type' | 'variable';
+
+/**
+ * A definition found by the symbol index, with the lines it spans.
+ */
+export interface CodeSymbol {
+  name: string;
+  kind: SymbolKind;
+  file: string;
+  startLine: number;
+  endLine: number;
+  exported: boolean;
+  /** Enclosing class or receiver type, for methods. */
+  container?: string;
+}
+
+/**
+ * One file or directory of a project map. Directories that did not fit in the map are
+ * `collapsed`: their children are left out and only counted.
+ */
+export interface ProjectMapEntry {
+  path: string;
+  type: 'file' | 'dir';
+  /** Bytes, for files. */
+  size?: number;
+  /** Top-level exported symbols, for files in outline mode. */
+  symbols?: string[];
+  children?: ProjectMapEntry[];
+  /** Files under a directory, counted recursively. */
+  fileCount?: number;
+  collapsed?: boolean;
+  /** Files of a partly listed directory that were left out. */
+  omittedFiles?: number;
+}
+
+export interface ProjectMap {
+  entries: ProjectMapEntry[];
+  /** Files in the repository, whether listed or not. */
+  totalFiles: number;
+  listedFiles: number;
+  /** Top-level files left out, when the root itself is only partly listed. */
+  omittedFiles?: number;
 }
 
+/**
+ * `regex` runs the pattern through ripgrep; `definition` and `callers` look the pattern up
+ * as a symbol name in the symbol index.
+ */
+export type SearchQueryKind = 'regex' | 'definition' | 'callers';
+
 export interface SearchQuery {
+  kind?: SearchQueryKind;
   pattern: string;
   fileType: string;
   contextLines: number;
   reason: string;
 }
 
-export interface CodeFix {
+export type FileChangeKind = 'edit' | 'create' | 'delete' | 'rename';
+
+/**
+ * A targeted replacement: `search` must match existing lines of the file, which are replaced by `replace`.
+ */
+export interface EditHunk {
+  search: string;
+  replace: string;
+}
+
+export interface FileChange {
+  kind: FileChangeKind;
+  file: string;
+  /** Search/replace hunks for `edit`. */
+  hunks?: EditHunk[];
+  /** Unified diff for `edit`, used when no hunks are given. */
+  diff?: string;
+  /** Full file content for `create` and for `edit` once its hunks are resolved; optional replacement content for `rename`. */
+  content?: string;
+  /** Destination path for `rename`. */
+  newFile?: string;
+}
+
+/**
+ * A set of file changes that is generated, reviewed, applied and committed as one unit.
+ */
+export interface ChangeSet {
+  changes: FileChange[];
+  explanation: string;
+}
+
+/**
+ * Regression test written before the fix. It fails on the unmodified code and must pass
+ * after the fix; it is submitted together with the fix.
+ */
+export interface ReproductionTest {
+  /** Path relative to the repository root. */
   file: string;
   content: string;
+  /** Runs only this test, from the project root. */
+  command: string;
+  explanation: string;
+  /** Output of the failing run on the unmodified code. */
+  failureOutput?: string;
 }
 
-export interface FixFailure {
-  fix: CodeFix;
-  error: string;
-  diagnosis: string;
+export type AttemptOutcome = 'pending' | 'rejected' | 'unapplied' | 'blocked' | 'failed' | 'passed';
+
+/**
+ * One fix attempt in the run's ledger: what was proposed and what happened to it.
+ * Nodes fill in their part and the graph merges entries by attempt number.
+ */
+export interface AttemptRecord {
   attempt: number;
+  outcome: AttemptOutcome;
+  fix?: ChangeSet;
+  review?: {
+    approved: boolean;
+    category: string;
+    feedback: string;
+  };
+  tests?: {
+    passed: boolean;
+    /** Failing tests and their messages, or the end of the output. */
+    summary: string;
+    delta?: TestDelta;
+  };
+  /** Model-generated explanation of why the attempt failed. */
+  diagnosis?: string;
+  /** Why the change policy blocked the attempt. */
+  policyViolations?: string[];
+}
+
+export type TestCaseStatus = 'passed' | 'failed' | 'skipped';
+
+export interface TestCase {
+  name: string;
+  file?: string;
+  status: TestCaseStatus;
+  duration?: number;
+  /** Failure or assertion message. */
+  message?: string;
+}
+
+/**
+ * How a test run differs from the baseline run on the unmodified code, by test case name.
+ */
+export interface TestDelta {
+  newlyFailing: string[];
+  newlyPassing: string[];
+  stillFailing: string[];
 }
 
 export interface TestResult {
@@ -53,6 +250,66 @@ export interface TestResult {
   error: string;
   exitCode: number;
   duration?: number;
+  /** Individual test cases, when the runner's output could be read. */
+  cases?: TestCase[];
+  /** Comparison with the baseline run, set during verification. */
+  delta?: TestDelta;
+}
+
+export type LLMProviderName = 'gemini' | 'openai' | 'anthropic';
+
+/**
+ * Provider and model chosen for a run. Serializable so it can travel in graph state.
+ */
+export interface LLMSelection {
+  provider: LLMProviderName;
+  model?: string;
+}
+
+export interface LLMUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  cost: number;
+}
+
+export interface UsageEntry {
+  provider: LLMProviderName;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  cost: number;
+  /** Graph node that made the call. */
+  node?: string;
+  /** Fix attempt the call belongs to; 0 for setup steps before the first attempt. */
+  attempt?: number;
+}
+
+export type SandboxBackend = 'e2b' | 'docker' | 'local';
+
+export interface CommandResult {
+  stdout: string;
+  stderr: string;
+  exitCode: number;
+  duration: number;
+}
+
+/**
+ * Isolated copy of the target repository where fixes are applied and tests run.
+ * File paths are relative to the repository root; commands run in the project root.
+ */
+export interface Sandbox {
+  readonly backend: SandboxBackend;
+  provision(githubUrl: string, fingerprint: RepoFingerprint, localPath?: string): Promise<void>;
+  exists(filePath: string): Promise<boolean>;
+  readFile(filePath: string): Promise<string>;
+  writeFile(filePath: string, content: string): Promise<void>;
+  deleteFile(filePath: string): Promise<void>;
+  renameFile(from: string, to: string): Promise<void>;
+  /** Runs a shell command; a non-zero exit is reported in the result, not thrown. */
+  runCommand(command: string): Promise<CommandResult>;
+  runTests(testCommand: string): Promise<TestResult>;
+  cleanup(): Promise<void>;
 }
 
 export interface AgentState {
@@ -61,17 +318,26 @@ export interface AgentState {
   repoPath?: string;
   fingerprint?: RepoFingerprint;
   contextSnippets: CodeSnippet[];
-  currentFix?: CodeFix;
+  currentFix?: ChangeSet;
+  reproduction?: ReproductionTest;
+  /** Test suite result on the unmodified code, before any fix. */
+  baseline?: TestResult;
   testResults: TestResult[];
+  /** Every fix attempt so far, with review verdicts, test outcomes and diagnoses. */
+  ledger: AttemptRecord[];
   attempts: number;
   maxAttempts: number;
   status: string;
   prUrl?: string;
-  sandbox?: any; // E2BSandbox type causes circular dependency if imported here, using any for now or move type.
   error?: string;
   reviewFeedback?: string;
   dryRun?: boolean;
+  interactive?: boolean;
+  draft?: boolean;
+  allowMaintainerEdits?: boolean;
   projectMap?: string;
+  llm?: LLMSelection;
+  repoConfig?: RepoConfig;
 }
 
 export interface GitHubIssue {
@@ -87,24 +353,65 @@ export interface PullRequest {
   number: number;
 }
 
-export interface ParsedIssueUrl {
+export interface RepoRef {
   owner: string;
   repo: string;
+}
+
+export interface ParsedIssueUrl extends RepoRef {
   issueNumber: number;
 }
 
 export interface WorkflowOptions {
   dryRun: boolean;
-  maxAttempts: number;
+  /** Defaults to the repository configuration, then 5. */
+  maxAttempts?: number;
   verbose: boolean;
   useLocal: boolean;
+  llm?: LLMSelection;
+  /** Spend limit in USD; defaults to `OSS_DEV_MAX_COST`. */
+  maxCost?: number;
+  /** Where tests run; defaults to `OSS_DEV_SANDBOX`. */
+  sandbox?: SandboxBackend;
+  /** Whether the run may prompt on the terminal (frontend visual checks); defaults to true. */
+  interactive?: boolean;
+  /** Prefix for log lines, for runs that share the console with others. */
+  label?: string;
+  /** Open the pull request as a draft. */
+  draft?: boolean;
+  /** Whether maintainers may push to a fix branch in our fork; defaults to true. */
+  allowMaintainerEdits?: boolean;
+}
+
+export type RunStatus = 'running' | WorkflowResult['status'];
+
+/**
+ * Persisted description of a workflow run, kept next to its checkpoints so it can be resumed.
+ */
+export interface RunRecord {
+  runId: string;
+  issueUrl: string;
+  options: WorkflowOptions;
+  repoPath?: string;
+  status: RunStatus;
+  /** Last graph node that completed. */
+  lastNode?: string;
+  createdAt: string;
+  updatedAt: string;
+  prUrl?: string;
+  error?: string;
+  usage: UsageEntry[];
 }
 
 export interface WorkflowResult {
-  status: 'success' | 'failed';
+  runId: string;
+  status: 'success' | 'failed' | 'budget_exceeded';
   prUrl?: string;
   error?: string;
+  /** Tests that still failed after the last attempt, when the run failed. */
+  failingTests?: TestCase[];
   attempts: number;
   duration: number;
   cost: number;
+  usage: UsageEntry[];
 }
@@ -0,0 +1,140 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { logger } from './logger';
+import { redactValue } from './redact';
+
+export type CassetteMode = 'record' | 'replay';
+
+/**
+ * Recorded exchange. `channel` groups interactions by source (`llm`, `github`) and
+ * `kind` narrows them further (e.g. `text` vs `structured` model calls).
+ */
+export interface CassetteInteraction {
+  channel: string;
+  kind: string;
+  request: Record<string, unknown>;
+  response: unknown;
+}
+
+interface CassetteFile {
+  version: 1;
+  interactions: CassetteInteraction[];
+}
+
+export class CassetteMissError extends Error {
+  constructor(channel: string, kind: string) {
+    super(`Cassette has no recorded ${channel}/${kind} interaction left to replay.`);
+    this.name = 'CassetteMissError';
+  }
+}
+
+/**
+ * Records model and GitHub exchanges to a JSON file, or replays them in order so a run
+ * can be repeated without network access.
+ *
+ * Replay first looks for an unused interaction whose request is identical. If the request
+ * drifted (a prompt changed), it falls back to the next unused interaction of the same
+ * channel and kind, which keeps the replay deterministic while prompts evolve.
+ */
+export class Cassette {
+  private interactions: CassetteInteraction[] = [];
+  private used = new Set<number>();
+
+  constructor(public readonly filePath: string, public readonly mode: CassetteMode) {
+    if (mode === 'replay') {
+      const file = JSON.parse(fs.readFileSync(filePath, 'utf8')) as CassetteFile;
+      this.interactions = file.interactions || [];
+    }
+  }
+
+  async intercept<T>(
+    channel: string,
+    kind: string,
+    request: Record<string, unknown>,
+    live: () => Promise<T>
+  ): Promise<T> {
+    if (this.mode === 'replay') {
+      return this.replay(channel, kind, request) as T;
+    }
+
+    const response = await live();
+    this.interactions.push({ channel, kind, request, response });
+    return response;
+  }
+
+  save(): void {
+    if (this.mode !== 'record') return;
+    const file: CassetteFile = { version: 1, interactions: redactValue(this.interactions) };
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.writeFileSync(this.filePath, JSON.stringify(file, null, 2) + '\n');
+    logger.info(`Recorded ${this.interactions.length} interactions to ${this.filePath}`);
+  }
+
+  private replay(channel: string, kind: string, request: Record<string, unknown>): unknown {
+    const wanted = fingerprint(request);
+    const candidates = this.interactions
+      .map((interaction, index) => ({ interaction, index }))
+      .filter(({ interaction, index }) => !this.used.has(index) && interaction.channel === channel && interaction.kind === kind);
+
+    const exact = candidates.find(({ interaction }) => fingerprint(interaction.request) === wanted);
+    const match = exact || candidates[0];
+    if (!match) {
+      throw new CassetteMissError(channel, kind);
+    }
+    if (!exact) {
+      logger.debug(`Cassette: replaying ${channel}/${kind} #${match.index} by order (request differs from recording)`);
+    }
+
+    this.used.add(match.index);
+    return match.interaction.response;
+  }
+}
+
+let active: Cassette | null | undefined;
+
+/**
+ * Returns the cassette for this process, configured by `OSS_DEV_CASSETTE` (file path)
+ * and `OSS_DEV_CASSETTE_MODE` (`record` or `replay`, default `replay`).
+ */
+export function getActiveCassette(): Cassette | null {
+  if (active === undefined) {
+    const filePath = process.env.OSS_DEV_CASSETTE;
+    const mode = (process.env.OSS_DEV_CASSETTE_MODE || 'replay') as CassetteMode;
+    active = filePath ? new Cassette(filePath, mode) : null;
+  }
+  return active;
+}
+
+export function setActiveCassette(cassette: Cassette | null): void {
+  active = cassette;
+}
+
+/**
+ * `fetch` implementation for Octokit that records or replays REST exchanges through the
+ * active cassette. Authorization headers never reach the cassette file.
+ */
+export function createCassetteFetch(cassette: Cassette, baseFetch: typeof fetch = fetch): typeof fetch {
+  return (async (input: string | URL | Request, init?: RequestInit) => {
+    const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+    const method = (init?.method || 'GET').toUpperCase();
+    const body = typeof init?.body === 'string' ? init.body : undefined;
+
+    const recorded = await cassette.intercept('github', method, { method, url, body }, async () => {
+      const response = await baseFetch(input, init);
+      const headers: Record<string, string> = {};
+      response.headers.forEach((value, name) => {
+        headers[name] = value;
+      });
+      return { status: response.status, headers, body: await response.text() };
+    });
+
+    const { status, headers, body: responseBody } = recorded as { status: number; headers: Record<string, string>; body: string };
+    // 204/304 responses must not carry a body
+    return new Response(status === 204 || status === 304 ? null : responseBody, { status, headers });
+  }) as typeof fetch;
+}
+
+function fingerprint(request: Record<string, unknown>): string {
+  return crypto.createHash('sha256').update(JSON.stringify(request)).digest('hex');
+}
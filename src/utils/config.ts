@@ -1,4 +1,7 @@
 import dotenv from 'dotenv';
+import os from 'os';
+import path from 'path';
+import { GitIdentity, LLMProviderName, SandboxBackend } from '../types';
 
 dotenv.config();
 
@@ -8,6 +11,21 @@ export interface Config {
   e2bApiKey: string;
   logLevel: string;
   maxCost: number;
+  llmProvider: LLMProviderName;
+  llmModel: string;
+  openaiApiKey: string;
+  openaiBaseUrl: string;
+  openaiToolCalling?: boolean;
+  anthropicApiKey: string;
+  sandbox: SandboxBackend;
+  /** Overrides the image the Docker sandbox derives from the detected stack. */
+  dockerImage: string;
+  /** Local state such as run checkpoints; `OSS_DEV_HOME`, default `~/.oss-dev`. */
+  dataDir: string;
+  /** Token budget for the variable content of one prompt (code, history, project map). */
+  contextTokens: number;
+  /** Author and committer of fix commits; `OSS_DEV_GIT_NAME` and `OSS_DEV_GIT_EMAIL`. */
+  gitIdentity: GitIdentity;
 }
 
 export const config: Config = {
@@ -16,10 +34,62 @@ export const config: Config = {
   e2bApiKey: process.env.E2B_API_KEY || '',
   logLevel: process.env.OSS_DEV_LOG_LEVEL || 'info',
   maxCost: parseFloat(process.env.OSS_DEV_MAX_COST || '2.00'),
+  llmProvider: (process.env.OSS_DEV_PROVIDER || 'gemini') as LLMProviderName,
+  llmModel: process.env.OSS_DEV_MODEL || '',
+  openaiApiKey: process.env.OPENAI_API_KEY || '',
+  openaiBaseUrl: process.env.OPENAI_BASE_URL || '',
+  openaiToolCalling: process.env.OPENAI_TOOL_CALLING ? process.env.OPENAI_TOOL_CALLING === 'true' : undefined,
+  anthropicApiKey: process.env.ANTHROPIC_API_KEY || '',
+  sandbox: (process.env.OSS_DEV_SANDBOX || 'e2b') as SandboxBackend,
+  dockerImage: process.env.OSS_DEV_DOCKER_IMAGE || '',
+  dataDir: process.env.OSS_DEV_HOME || path.join(os.homedir(), '.oss-dev'),
+  contextTokens: parseInt(process.env.OSS_DEV_CONTEXT_TOKENS || '32000', 10),
+  gitIdentity: {
+    name: process.env.OSS_DEV_GIT_NAME || 'OSS_dev Agent',
+    email: process.env.OSS_DEV_GIT_EMAIL || 'agent@oss-dev.local',
+  },
 };
 
-export function validateConfig(): void {
-  const required = ['GEMINI_API_KEY', 'GITHUB_TOKEN', 'E2B_API_KEY'];
+export interface ValidationOptions {
+  provider?: LLMProviderName;
+  sandbox?: SandboxBackend;
+  /** Replaying a cassette needs no GitHub or model credentials. */
+  offline?: boolean;
+}
+
+const PROVIDER_KEYS: Record<LLMProviderName, string[]> = {
+  gemini: ['GEMINI_API_KEY'],
+  // Self-hosted OpenAI-compatible servers do not need a key
+  openai: process.env.OPENAI_BASE_URL ? [] : ['OPENAI_API_KEY'],
+  anthropic: ['ANTHROPIC_API_KEY'],
+};
+
+// Docker and local sandboxes run on this machine
+const SANDBOX_KEYS: Record<SandboxBackend, string[]> = {
+  e2b: ['E2B_API_KEY'],
+  docker: [],
+  local: [],
+};
+
+export function validateConfig(options: ValidationOptions = {}): void {
+  const provider = options.provider || config.llmProvider;
+  if (!PROVIDER_KEYS[provider]) {
+    throw new Error(`Unknown LLM provider "${provider}". Expected one of: ${Object.keys(PROVIDER_KEYS).join(', ')}`);
+  }
+
+  const sandbox = options.sandbox || config.sandbox;
+  if (!SANDBOX_KEYS[sandbox]) {
+    throw new Error(`Unknown sandbox backend "${sandbox}". Expected one of: ${Object.keys(SANDBOX_KEYS).join(', ')}`);
+  }
+
+  // The budget set in the environment applies to every run that does not pass --max-cost
+  if (!Number.isFinite(config.maxCost) || config.maxCost < 0) {
+    throw new Error(`OSS_DEV_MAX_COST must be an amount in USD of zero or more, got "${process.env.OSS_DEV_MAX_COST}".`);
+  }
+
+  const required = options.offline
+    ? [...SANDBOX_KEYS[sandbox]]
+    : ['GITHUB_TOKEN', ...SANDBOX_KEYS[sandbox], ...PROVIDER_KEYS[provider]];
   const missing = required.filter(key => !process.env[key]);
   
   if (missing.length > 0) {
@@ -1,13 +1,24 @@
 import chalk from 'chalk';
+import { redactValue } from './redact';
+import { getRunContext } from './run-context';
+
+// Concurrent runs label their lines so interleaved output stays readable
+const label = (): string[] => {
+  const current = getRunContext()?.label;
+  return current ? [chalk.gray(`[${current}]`)] : [];
+};
+
+// Credentials never reach the terminal, e.g. from a failed git command that echoes its push URL
+const redacted = (args: any[]): any[] => args.map(arg => redactValue(arg));
 
 export const logger = {
   debug: (...args: any[]) => {
     if (process.env.OSS_DEV_LOG_LEVEL === 'debug') {
-      console.log(chalk.gray('[DEBUG]'), ...args);
+      console.log(chalk.gray('[DEBUG]'), ...label(), ...redacted(args));
     }
   },
-  info: (...args: any[]) => console.log(chalk.blue('[INFO]'), ...args),
-  warn: (...args: any[]) => console.warn(chalk.yellow('[WARN]'), ...args),
-  error: (...args: any[]) => console.error(chalk.red('[ERROR]'), ...args),
-  success: (...args: any[]) => console.log(chalk.green('[SUCCESS]'), ...args),
+  info: (...args: any[]) => console.log(chalk.blue('[INFO]'), ...label(), ...redacted(args)),
+  warn: (...args: any[]) => console.warn(chalk.yellow('[WARN]'), ...label(), ...redacted(args)),
+  error: (...args: any[]) => console.error(chalk.red('[ERROR]'), ...label(), ...redacted(args)),
+  success: (...args: any[]) => console.log(chalk.green('[SUCCESS]'), ...label(), ...redacted(args)),
 };
@@ -0,0 +1,101 @@
+import { config } from './config';
+
+/**
+ * Shapes of common credentials. Each pattern is global; `findSecrets` reports the `name`.
+ */
+export const SECRET_PATTERNS: { name: string; pattern: RegExp }[] = [
+  { name: 'private key', pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g },
+  { name: 'GitHub token', pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})\b/g },
+  { name: 'Anthropic API key', pattern: /\bsk-ant-[A-Za-z0-9_-]{20,}/g },
+  { name: 'OpenAI API key', pattern: /\bsk-(?:proj-)?[A-Za-z0-9_-]{20,}/g },
+  { name: 'Google API key', pattern: /\bAIza[0-9A-Za-z_-]{35}\b/g },
+  { name: 'AWS access key', pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+  { name: 'Slack token', pattern: /\bxox[abposr]-[A-Za-z0-9-]{10,}/g },
+  { name: 'URL credentials', pattern: /(?<=[a-z][a-z0-9+.-]*:\/\/)[^/\s:@'"]+:[^/\s@'"]+(?=@)/gi },
+  {
+    name: 'hard-coded credential',
+    pattern: /(?<=\b(?:password|passwd|secret|api[_-]?key|access[_-]?token|auth[_-]?token|client[_-]?secret)['"]?\s*[:=]\s*['"])[A-Za-z0-9_\-+/=.]{12,}(?=['"])/gi,
+  },
+];
+
+const MASK = '***';
+
+// Shorter values are too likely to occur in ordinary text
+const MIN_KNOWN_SECRET_LENGTH = 8;
+
+const SECRET_ENV_VARS = ['GITHUB_TOKEN', 'GH_TOKEN', 'GEMINI_API_KEY', 'OPENAI_API_KEY', 'ANTHROPIC_API_KEY', 'E2B_API_KEY'];
+
+/**
+ * Credentials this process was configured with.
+ */
+function knownSecrets(): string[] {
+  const values = [
+    config.githubToken,
+    config.geminiApiKey,
+    config.openaiApiKey,
+    config.anthropicApiKey,
+    config.e2bApiKey,
+    ...SECRET_ENV_VARS.map(name => process.env[name]),
+  ];
+  return Array.from(new Set(values.filter((value): value is string => Boolean(value) && value!.length >= MIN_KNOWN_SECRET_LENGTH)));
+}
+
+/**
+ * Masks configured credentials and anything shaped like a secret.
+ */
+export function redact(text: string): string {
+  let result = text;
+  for (const secret of knownSecrets()) {
+    result = result.split(secret).join(MASK);
+  }
+  for (const { pattern } of SECRET_PATTERNS) {
+    result = result.replace(pattern, MASK);
+  }
+  return result;
+}
+
+/**
+ * `redact` applied to every string inside a JSON-like value; errors become redacted messages.
+ */
+export function redactValue<T>(value: T): T {
+  if (typeof value === 'string') return redact(value) as T;
+  if (value instanceof Error) {
+    const copy = new Error(redact(value.message));
+    copy.name = value.name;
+    copy.stack = value.stack && redact(value.stack);
+    return copy as T;
+  }
+  if (Array.isArray(value)) return value.map(item => redactValue(item)) as T;
+  if (value && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, redactValue(item)])) as T;
+  }
+  return value;
+}
+
+export interface SecretFinding {
+  name: string;
+  /** 1-based line of `text` the secret starts on. */
+  line: number;
+  value: string;
+}
+
+/**
+ * Every secret-looking value in `text`, configured credentials included.
+ */
+export function findSecrets(text: string): SecretFinding[] {
+  const lineOf = (index: number) => text.slice(0, index).split('\n').length;
+  const findings: SecretFinding[] = [];
+  for (const secret of knownSecrets()) {
+    for (let index = text.indexOf(secret); index !== -1; index = text.indexOf(secret, index + secret.length)) {
+      findings.push({ name: 'configured credential', line: lineOf(index), value: secret });
+    }
+  }
+  for (const { name, pattern } of SECRET_PATTERNS) {
+    for (const match of text.matchAll(pattern)) {
+      if (!findings.some(finding => finding.value.includes(match[0]) || match[0].includes(finding.value))) {
+        findings.push({ name, line: lineOf(match.index!), value: match[0] });
+      }
+    }
+  }
+  return findings.sort((a, b) => a.line - b.line);
+}
@@ -0,0 +1,153 @@
+import fs from 'fs';
+import path from 'path';
+import ignore from 'ignore';
+import yaml from 'js-yaml';
+import { z } from 'zod';
+import { ChangePolicy, LLMProviderName, RepoConfig, RepoFingerprint } from '../types';
+import { config } from './config';
+
+/** Looked up in the repository root, first match wins. */
+export const REPO_CONFIG_FILES = ['.oss-dev.yml', '.oss-dev.yaml'];
+
+/** Values available to pull request templates as `{{name}}`. */
+export const PR_TEMPLATE_PLACEHOLDERS = ['issue', 'problem', 'changes', 'explanation', 'body'] as const;
+
+const PROVIDERS = ['gemini', 'openai', 'anthropic'] as const satisfies readonly LLMProviderName[];
+
+const template = z.string().min(1).superRefine((text, ctx) => {
+  const unknown = placeholders(text).filter(name => !(PR_TEMPLATE_PLACEHOLDERS as readonly string[]).includes(name));
+  if (unknown.length > 0) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: `Unknown placeholder ${unknown.map(name => `{{${name}}}`).join(', ')}; available: ${PR_TEMPLATE_PLACEHOLDERS.map(name => `{{${name}}}`).join(', ')}`,
+    });
+  }
+});
+
+export const RepoConfigSchema: z.ZodType<RepoConfig> = z.object({
+  commands: z.object({
+    install: z.string().min(1),
+    test: z.string().min(1),
+    lint: z.string().min(1),
+  }).partial().strict(),
+  projectRoot: z.string().refine(
+    dir => !path.isAbsolute(dir) && !dir.split(/[\\/]/).includes('..'),
+    'Must be a directory inside the repository'
+  ),
+  exclude: z.array(z.string().min(1)),
+  llm: z.object({
+    provider: z.enum(PROVIDERS),
+    model: z.string().min(1),
+  }).partial().strict(),
+  maxAttempts: z.number().int().min(1).max(20),
+  baseBranch: z.string().min(1),
+  pullRequest: z.object({
+    title: template,
+    body: template,
+  }).partial().strict(),
+  policy: z.object({
+    forbiddenPaths: z.array(z.string().min(1)),
+    forbiddenExtensions: z.array(z.string().min(1)),
+    protectedPackageFields: z.array(z.string().min(1)),
+    maxFiles: z.number().int().min(1),
+    maxLines: z.number().int().min(1),
+  }).partial().strict(),
+}).partial().strict();
+
+export class ConfigError extends Error {
+  constructor(public readonly file: string, public readonly problems: string[]) {
+    super(`Invalid configuration in ${file}:\n${problems.map(problem => `  - ${problem}`).join('\n')}`);
+    this.name = 'ConfigError';
+  }
+}
+
+/**
+ * Settings for a run on the repository at `repoPath`: the user-level `config.yml` in the
+ * data directory, overridden by the repository's `.oss-dev.yml`. Exclusions of both apply.
+ * Without `repoPath` only the user-level file is read. Throws `ConfigError` for files that
+ * are not valid YAML or do not match the schema.
+ */
+export function loadRepoConfig(repoPath?: string): RepoConfig {
+  const user = readConfigFile(path.join(config.dataDir, 'config.yml'));
+  const repoFile = repoPath && REPO_CONFIG_FILES.map(file => path.join(repoPath, file)).find(file => fs.existsSync(file));
+  return repoFile ? mergeRepoConfigs(user, readConfigFile(repoFile)) : user;
+}
+
+export function mergeRepoConfigs(base: RepoConfig, override: RepoConfig): RepoConfig {
+  return {
+    ...base,
+    ...override,
+    ...(base.commands || override.commands ? { commands: { ...base.commands, ...override.commands } } : {}),
+    ...(base.llm || override.llm ? { llm: { ...base.llm, ...override.llm } } : {}),
+    ...(base.pullRequest || override.pullRequest ? { pullRequest: { ...base.pullRequest, ...override.pullRequest } } : {}),
+    ...(base.exclude || override.exclude ? { exclude: [...(base.exclude || []), ...(override.exclude || [])] } : {}),
+    ...(base.policy || override.policy ? { policy: mergePolicies(base.policy || {}, override.policy || {}) } : {}),
+  };
+}
+
+function mergePolicies(base: Partial<ChangePolicy>, override: Partial<ChangePolicy>): Partial<ChangePolicy> {
+  const lists = (['forbiddenPaths', 'forbiddenExtensions', 'protectedPackageFields'] as const)
+    .filter(key => base[key] || override[key])
+    .map(key => [key, [...(base[key] || []), ...(override[key] || [])]]);
+  return { ...base, ...override, ...Object.fromEntries(lists) };
+}
+
+/**
+ * The detected stack with the commands and project root the configuration pins down. A
+ * configured test command or project root also turns off workspace-scoped test runs, which
+ * would bypass it.
+ */
+export function applyRepoConfig(fingerprint: RepoFingerprint, repoConfig: RepoConfig = {}): RepoFingerprint {
+  const { install, test, lint } = repoConfig.commands || {};
+  const projectRoot = repoConfig.projectRoot?.replace(/^\.(\/|$)/, '').replace(/\/+$/, '');
+  const result: RepoFingerprint = {
+    ...fingerprint,
+    ...(install ? { installCommand: install } : {}),
+    ...(test ? { testCommand: test } : {}),
+    ...(lint ? { lintCommand: lint } : {}),
+    ...(projectRoot !== undefined ? { projectRoot: projectRoot || undefined } : {}),
+  };
+  if (test || (projectRoot !== undefined && result.projectRoot !== fingerprint.projectRoot)) {
+    delete result.workspace;
+  }
+  return result;
+}
+
+/**
+ * Tells whether a path relative to the repository root matches the configured `exclude` patterns.
+ */
+export function excludeMatcher(repoConfig: RepoConfig = {}): (file: string) => boolean {
+  if (!repoConfig.exclude?.length) return () => false;
+  const rules = ignore().add(repoConfig.exclude);
+  return file => rules.ignores(file);
+}
+
+/**
+ * Fills `{{name}}` placeholders; unknown ones are left as they are.
+ */
+export function renderTemplate(text: string, values: Partial<Record<(typeof PR_TEMPLATE_PLACEHOLDERS)[number], string>>): string {
+  return text.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) => values[name as keyof typeof values] ?? match);
+}
+
+function placeholders(text: string): string[] {
+  return Array.from(text.matchAll(/\{\{\s*(\w+)\s*\}\}/g), m => m[1]);
+}
+
+function readConfigFile(file: string): RepoConfig {
+  if (!fs.existsSync(file)) return {};
+
+  let raw: unknown;
+  try {
+    raw = yaml.load(fs.readFileSync(file, 'utf8'), { filename: file });
+  } catch (error: any) {
+    throw new ConfigError(file, [error.mark ? `${error.reason} (line ${error.mark.line + 1}, column ${error.mark.column + 1})` : error.message]);
+  }
+  // An empty file configures nothing
+  if (raw === undefined || raw === null) return {};
+
+  const parsed = RepoConfigSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new ConfigError(file, parsed.error.issues.map(issue => `${issue.path.join('.') || '(top level)'}: ${issue.message}`));
+  }
+  return parsed.data;
+}
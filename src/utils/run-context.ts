@@ -0,0 +1,48 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { UsageTracker } from '../llm/usage';
+import { Sandbox } from '../types';
+import type { TraceWriter } from './trace';
+
+/**
+ * Per-run state that must follow every async call of a workflow without being threaded
+ * through each function: the usage tracker, the budget, the sandbox and the graph node
+ * currently running. Concurrent runs each get their own context.
+ *
+ * Anything here is deliberately kept out of the graph state, which is checkpointed to disk.
+ */
+export interface RunContext {
+  runId: string;
+  /** Shown in front of log lines when several runs share the console. */
+  label?: string;
+  usage: UsageTracker;
+  /** Live sandbox for the run; rebuilt rather than restored when a run resumes. */
+  sandbox?: Sandbox;
+  /** Structured audit trail of the run, when it is being recorded. */
+  trace?: TraceWriter;
+  /** Called after each graph node completes. */
+  onNodeComplete?: (node: string) => void;
+  /** Maximum spend in USD; the run stops at the next node boundary once it is exceeded. */
+  maxCost?: number;
+  node?: string;
+  attempt?: number;
+}
+
+const storage = new AsyncLocalStorage<RunContext>();
+
+export function runWithContext<T>(context: RunContext, fn: () => Promise<T>): Promise<T> {
+  return storage.run(context, fn);
+}
+
+export function getRunContext(): RunContext | undefined {
+  return storage.getStore();
+}
+
+/**
+ * Runs `fn` with the node name and attempt number attached, so usage recorded inside it
+ * is attributed to that step.
+ */
+export function withNodeScope<T>(node: string, attempt: number, fn: () => Promise<T>): Promise<T> {
+  const parent = storage.getStore();
+  if (!parent) return fn();
+  return storage.run({ ...parent, node, attempt }, fn);
+}
@@ -0,0 +1,72 @@
+import fs from 'fs';
+import path from 'path';
+import { redactValue } from './redact';
+import { getRunContext } from './run-context';
+
+export type TraceEventType =
+  | 'node_start'
+  | 'node_end'
+  | 'node_error'
+  | 'prompt'
+  | 'response'
+  | 'search'
+  | 'context'
+  | 'test';
+
+/**
+ * One line of a run's `trace.jsonl`. `node` and `attempt` are filled in from the run context.
+ */
+export interface TraceEvent {
+  type: TraceEventType;
+  timestamp: string;
+  node?: string;
+  attempt?: number;
+  [field: string]: unknown;
+}
+
+/**
+ * Appends structured events to a JSONL file, one write per event, so the trace survives
+ * a process that is killed mid-run. Secrets are masked before anything is written.
+ */
+export class TraceWriter {
+  private lastInput: Record<string, unknown> = {};
+
+  constructor(public readonly filePath: string) {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  }
+
+  write(event: Omit<TraceEvent, 'timestamp'>): void {
+    const line = redactValue({ timestamp: new Date().toISOString(), ...event });
+    fs.appendFileSync(this.filePath, JSON.stringify(line) + '\n');
+  }
+
+  /**
+   * Fields of a node's input state that changed since the previous node started.
+   */
+  diffInput(state: Record<string, unknown>): Record<string, unknown> {
+    const diff: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(state)) {
+      if (JSON.stringify(value) !== JSON.stringify(this.lastInput[key])) {
+        diff[key] = value;
+      }
+    }
+    this.lastInput = { ...state };
+    return diff;
+  }
+}
+
+/**
+ * Records an event on the current run's trace; a no-op outside of a traced run.
+ */
+export function trace(type: TraceEventType, fields: Record<string, unknown> = {}): void {
+  const context = getRunContext();
+  context?.trace?.write({ type, node: context.node, attempt: context.attempt, ...fields });
+}
+
+export function readTrace(filePath: string): TraceEvent[] {
+  if (!fs.existsSync(filePath)) return [];
+  return fs.readFileSync(filePath, 'utf8')
+    .split('\n')
+    .filter(Boolean)
+    .map(line => JSON.parse(line) as TraceEvent);
+}
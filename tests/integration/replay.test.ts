@@ -0,0 +1,284 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { execSync } from 'child_process';
+
+jest.mock('chalk', () => {
+    const identity = (s: string) => s;
+    return { __esModule: true, default: { magenta: identity, cyan: identity } };
+});
+
+jest.mock('execa', () => ({
+    execa: jest.fn().mockRejectedValue(new Error('ripgrep is not available offline')),
+}));
+
+jest.mock('../../src/utils/logger', () => ({
+    logger: {
+        info: jest.fn(),
+        warn: jest.fn(),
+        error: jest.fn(),
+        success: jest.fn(),
+        debug: jest.fn(),
+    },
+}));
+
+import { createFixGraph } from '../../src/orchestrator/graph';
+import { Cassette, setActiveCassette } from '../../src/utils/cassette';
+import { BudgetExceededError, sessionUsage, UsageTracker } from '../../src/llm';
+import { runWithContext } from '../../src/utils/run-context';
+import { FileCheckpointSaver } from '../../src/orchestrator/checkpointer';
+import { readTrace, TraceWriter } from '../../src/utils/trace';
+import { AgentState, CommandResult, Sandbox, TestResult } from '../../src/types';
+
+const FIXTURES = path.join(__dirname, '..', 'fixtures');
+
+/**
+ * Sandbox stand-in that runs the fixture repository's tests with the local Node binary.
+ */
+class DirectorySandbox implements Sandbox {
+    readonly backend = 'local' as const;
+    constructor(private root: string) { }
+
+    async provision() { }
+    async cleanup() { }
+
+    async exists(file: string) { return fs.existsSync(path.join(this.root, file)); }
+    async readFile(file: string) { return fs.readFileSync(path.join(this.root, file), 'utf8'); }
+    async writeFile(file: string, content: string) {
+        fs.mkdirSync(path.dirname(path.join(this.root, file)), { recursive: true });
+        fs.writeFileSync(path.join(this.root, file), content);
+    }
+    async deleteFile(file: string) { fs.unlinkSync(path.join(this.root, file)); }
+    async renameFile(from: string, to: string) { fs.renameSync(path.join(this.root, from), path.join(this.root, to)); }
+
+    async runCommand(command: string): Promise<CommandResult> {
+        try {
+            const stdout = execSync(command, { cwd: this.root, stdio: 'pipe' }).toString();
+            return { stdout, stderr: '', exitCode: 0, duration: 0 };
+        } catch (error: any) {
+            return { stdout: String(error.stdout), stderr: String(error.stderr), exitCode: error.status ?? 1, duration: 0 };
+        }
+    }
+
+    async runTests(command: string): Promise<TestResult> {
+        const result = await this.runCommand(command);
+        return { passed: result.exitCode === 0, output: result.stdout, error: result.stderr, exitCode: result.exitCode };
+    }
+}
+
+function copyFixtureRepo(name: string): string {
+    const target = fs.mkdtempSync(path.join(os.tmpdir(), `oss-dev-${name}-`));
+    fs.cpSync(path.join(FIXTURES, 'repos', name), target, { recursive: true });
+    return target;
+}
+
+describe('Fix graph replay', () => {
+    let repoPath: string;
+
+    beforeEach(() => {
+        repoPath = copyFixtureRepo('calculator');
+        setActiveCassette(new Cassette(path.join(FIXTURES, 'cassettes', 'calculator-add.json'), 'replay'));
+    });
+
+    afterEach(() => {
+        setActiveCassette(null);
+        fs.rmSync(repoPath, { recursive: true, force: true });
+    });
+
+    const initialState = () => ({
+        issueUrl: 'https://github.com/acme/calculator/issues/7',
+        repoPath,
+        contextSnippets: [],
+        testResults: [],
+        attempts: 0,
+        maxAttempts: 2,
+        dryRun: true,
+        llm: { provider: 'gemini' as const, model: 'gemini-2.5-flash' },
+        status: 'running' as const,
+    });
+
+    it('fixes the calculator issue end to end without network access', async () => {
+        const sandbox = new DirectorySandbox(repoPath);
+        const graph = createFixGraph();
+
+        const finalState: AgentState = await runWithContext(
+            { runId: 'test', usage: new UsageTracker(), sandbox },
+            () => graph.invoke(initialState())
+        );
+
+        expect(finalState.status).toBe('success');
+        expect(finalState.prUrl).toBe('DRY-RUN-NO-PR');
+        expect(finalState.attempts).toBe(1);
+        expect(finalState.issueAnalysis?.mentionedFiles).toEqual(['src/math.js']);
+        expect(fs.readFileSync(path.join(repoPath, 'src/math.js'), 'utf8')).toContain('return a + b;');
+        expect(finalState.reproduction).toMatchObject({ file: 'test/add-regression.test.js', command: 'node test/add-regression.test.js' });
+        expect(finalState.reproduction?.failureOutput).toContain('AssertionError');
+        expect(finalState.ledger).toEqual([expect.objectContaining({ attempt: 1, outcome: 'passed', review: expect.objectContaining({ approved: true }) })]);
+        expect(sessionUsage.summary().promptTokens).toBeGreaterThan(0);
+    });
+
+    it('attributes usage to graph nodes and fix attempts', async () => {
+        const usage = new UsageTracker();
+        const graph = createFixGraph();
+
+        await runWithContext({ runId: 'test', usage, sandbox: new DirectorySandbox(repoPath) }, () => graph.invoke(initialState()));
+
+        const nodes = usage.groupBy(e => e.node || 'other').map(g => g.label);
+        expect(nodes).toEqual(expect.arrayContaining(['analyze_issue', 'search_code', 'generate_fix', 'review_fix']));
+        expect(usage.getEntries().find(e => e.node === 'generate_fix')?.attempt).toBe(1);
+    });
+
+    it('writes prompts, searches, test output and state diffs to the run trace', async () => {
+        const traceFile = path.join(repoPath, '..', `${path.basename(repoPath)}-trace.jsonl`);
+        const context = { runId: 'test', usage: new UsageTracker(), sandbox: new DirectorySandbox(repoPath), trace: new TraceWriter(traceFile) };
+
+        try {
+            await runWithContext(context, () => createFixGraph().invoke(initialState()));
+            const events = readTrace(traceFile);
+
+            const prompts = events.filter(e => e.type === 'prompt');
+            expect(prompts.map(e => e.node)).toEqual(['analyze_issue', 'search_code', 'reproduce_issue', 'generate_fix', 'review_fix']);
+            expect(prompts[0].prompt).toContain('REPORT CONTENT:');
+            expect(events.find(e => e.type === 'response' && e.node === 'generate_fix')?.output).toHaveProperty('changes');
+            expect(events.some(e => e.type === 'search' && e.hits === 0)).toBe(true);
+            const tests = events.filter(e => e.type === 'test');
+            expect(tests[0]).toMatchObject({ node: 'baseline_tests', purpose: 'baseline', command: 'npm test' });
+            expect(tests[1]).toMatchObject({ node: 'reproduce_issue', purpose: 'reproduction', exitCode: 1 });
+            expect(tests[2]).toMatchObject({ node: 'verify_fix', attempt: 1, passed: true, command: 'npm test' });
+            expect(tests[3]).toMatchObject({ node: 'verify_fix', purpose: 'reproduction', exitCode: 0 });
+
+            const starts = events.filter(e => e.type === 'node_start');
+            expect(starts[0].input).toHaveProperty('issueUrl');
+            expect(starts[1].input).toHaveProperty('issueAnalysis');
+            expect(starts[1].input).not.toHaveProperty('issueUrl');
+        } finally {
+            fs.rmSync(traceFile, { force: true });
+        }
+    });
+
+    it('fails the run instead of looping when review rejects the last allowed attempt', async () => {
+        const recorded = JSON.parse(fs.readFileSync(path.join(FIXTURES, 'cassettes', 'calculator-add.json'), 'utf8'));
+        const review = recorded.interactions.find((i: any) => i.response.output?.approved !== undefined);
+        review.response.output = { approved: false, feedback: 'Changes the wrong function.', category: 'logic' };
+        const cassetteFile = path.join(repoPath, '..', `${path.basename(repoPath)}-rejecting.json`);
+        fs.writeFileSync(cassetteFile, JSON.stringify(recorded));
+        setActiveCassette(new Cassette(cassetteFile, 'replay'));
+
+        try {
+            const finalState: AgentState = await runWithContext(
+                { runId: 'test', usage: new UsageTracker(), sandbox: new DirectorySandbox(repoPath) },
+                () => createFixGraph().invoke({ ...initialState(), maxAttempts: 1 })
+            );
+
+            expect(finalState.status).toBe('failed');
+            expect(finalState.error).toContain('Changes the wrong function.');
+            expect(finalState.ledger).toEqual([
+                expect.objectContaining({ attempt: 1, outcome: 'rejected', review: expect.objectContaining({ category: 'logic' }) }),
+            ]);
+            expect(fs.readFileSync(path.join(repoPath, 'src/math.js'), 'utf8')).toContain('return a - b;');
+        } finally {
+            fs.rmSync(cassetteFile, { force: true });
+        }
+    });
+
+    it('holds the regression test to the change policy while verifying', async () => {
+        const finalState: AgentState = await runWithContext(
+            { runId: 'test', usage: new UsageTracker(), sandbox: new DirectorySandbox(repoPath) },
+            () => createFixGraph().invoke({
+                ...initialState(),
+                maxAttempts: 1,
+                repoConfig: { policy: { forbiddenPaths: ['test/add-regression.test.js'] } },
+            })
+        );
+
+        expect(finalState.status).not.toBe('success');
+        expect(finalState.ledger).toEqual([
+            expect.objectContaining({ attempt: 1, outcome: 'blocked', policyViolations: ['test/add-regression.test.js: this path may not be changed'] }),
+        ]);
+        expect(fs.readFileSync(path.join(repoPath, 'src/math.js'), 'utf8')).toContain('return a - b;');
+    });
+
+    it('blocks a fix that changes the regression test', async () => {
+        const recorded = JSON.parse(fs.readFileSync(path.join(FIXTURES, 'cassettes', 'calculator-add.json'), 'utf8'));
+        const fix = recorded.interactions.find((i: any) => i.response.output?.changes);
+        fix.response.output.changes.push({
+            kind: 'edit',
+            file: 'test/add-regression.test.js',
+            hunks: [{ search: 'assert.strictEqual(add(2, 3), 5);', replace: 'assert.ok(true);' }],
+        });
+        const cassetteFile = path.join(repoPath, '..', `${path.basename(repoPath)}-tampering.json`);
+        fs.writeFileSync(cassetteFile, JSON.stringify(recorded));
+        setActiveCassette(new Cassette(cassetteFile, 'replay'));
+
+        try {
+            const finalState: AgentState = await runWithContext(
+                { runId: 'test', usage: new UsageTracker(), sandbox: new DirectorySandbox(repoPath) },
+                () => createFixGraph().invoke({ ...initialState(), maxAttempts: 1 })
+            );
+
+            expect(finalState.status).not.toBe('success');
+            expect(finalState.ledger).toEqual([
+                expect.objectContaining({ attempt: 1, outcome: 'blocked', policyViolations: [expect.stringContaining('test/add-regression.test.js: the regression test may not be changed')] }),
+            ]);
+            expect(fs.readFileSync(path.join(repoPath, 'test/add-regression.test.js'), 'utf8')).toContain('assert.strictEqual(add(2, 3), 5);');
+        } finally {
+            fs.rmSync(cassetteFile, { force: true });
+        }
+    });
+
+    it('stops between steps once the cost budget is spent', async () => {
+        const usage = new UsageTracker();
+        const graph = createFixGraph();
+
+        await expect(
+            runWithContext(
+                { runId: 'test', usage, maxCost: 0.000001, sandbox: new DirectorySandbox(repoPath) },
+                () => graph.invoke(initialState())
+            )
+        ).rejects.toBeInstanceOf(BudgetExceededError);
+        expect(usage.getEntries().every(e => e.node === 'analyze_issue')).toBe(true);
+    });
+
+    it('resumes from the last checkpoint after the process dies mid-run', async () => {
+        const checkpointFile = path.join(repoPath, '..', `${path.basename(repoPath)}-checkpoints.json`);
+        const config = { configurable: { thread_id: 'resume-test' } };
+        let clonePath: string | undefined;
+        const crashing = new DirectorySandbox(repoPath);
+        // The baseline run succeeds; the connection drops during verification
+        const runTests = crashing.runTests.bind(crashing);
+        crashing.runTests = jest.fn(runTests).mockImplementationOnce(runTests).mockRejectedValue(new Error('connection reset'));
+
+        try {
+            await expect(runWithContext(
+                { runId: 'resume-test', usage: new UsageTracker(), sandbox: crashing },
+                () => createFixGraph(new FileCheckpointSaver(checkpointFile)).invoke(initialState(), config)
+            )).rejects.toThrow('connection reset');
+
+            // A new process: fresh graph, checkpointer loaded from disk, a fresh clone at a new path
+            // and a rebuilt sandbox; the old clone is gone
+            fs.rmSync(repoPath, { recursive: true, force: true });
+            clonePath = copyFixtureRepo('calculator');
+            const graph = createFixGraph(new FileCheckpointSaver(checkpointFile));
+            expect((await graph.getState(config)).next).toEqual(['verify_fix']);
+
+            // As the workflow does when it had to clone again
+            await graph.updateState(config, { repoPath: clonePath });
+            const saved = await graph.getState(config);
+            expect(saved.next).toEqual(['verify_fix']);
+            const sandbox = new DirectorySandbox(clonePath);
+            await sandbox.writeFile(saved.values.reproduction.file, saved.values.reproduction.content);
+
+            const finalState: AgentState = await runWithContext(
+                { runId: 'resume-test', usage: new UsageTracker(), sandbox },
+                () => graph.invoke(null, config)
+            );
+            expect(finalState.status).toBe('success');
+            expect(finalState.attempts).toBe(1);
+            expect(finalState.repoPath).toBe(clonePath);
+            expect(fs.readFileSync(path.join(clonePath, 'src/math.js'), 'utf8')).toContain('return a + b;');
+        } finally {
+            fs.rmSync(checkpointFile, { force: true });
+            if (clonePath) fs.rmSync(clonePath, { recursive: true, force: true });
+        }
+    });
+});
@@ -0,0 +1,67 @@
+jest.mock('chalk', () => {
+    const identity = (s: string) => s;
+    return { __esModule: true, default: { gray: identity } };
+});
+
+jest.mock('../../src/orchestrator/workflow', () => ({
+    runFixWorkflow: jest.fn(),
+}));
+
+jest.mock('../../src/tools/github/client', () => ({
+    GitHubClient: jest.fn(),
+}));
+
+jest.mock('../../src/utils/logger', () => ({
+    logger: {
+        info: jest.fn(),
+        warn: jest.fn(),
+        error: jest.fn(),
+        success: jest.fn(),
+        debug: jest.fn(),
+    },
+}));
+
+import { runBatch } from '../../src/orchestrator/batch';
+import { runFixWorkflow } from '../../src/orchestrator/workflow';
+import { WorkflowOptions } from '../../src/types';
+
+const runMock = runFixWorkflow as jest.MockedFunction<typeof runFixWorkflow>;
+const options: WorkflowOptions = { dryRun: true, maxAttempts: 2, verbose: false, useLocal: false };
+const urls = [1, 2, 3, 4, 5].map(n => `https://github.com/acme/app/issues/${n}`);
+
+describe('Batch runs', () => {
+    afterEach(() => runMock.mockReset());
+
+    it('keeps at most `concurrency` runs in flight and returns results in input order', async () => {
+        let inFlight = 0;
+        let peak = 0;
+        runMock.mockImplementation(async (issueUrl) => {
+            inFlight++;
+            peak = Math.max(peak, inFlight);
+            await new Promise(resolve => setTimeout(resolve, 10 * (6 - Number(issueUrl.split('/').pop()))));
+            inFlight--;
+            return { runId: issueUrl.slice(-1), status: 'success', attempts: 1, duration: 0, cost: 0.01, usage: [] };
+        });
+
+        const results = await runBatch(urls, options, 2);
+
+        expect(peak).toBe(2);
+        expect(results.map(r => r.issueUrl)).toEqual(urls);
+        expect(runMock).toHaveBeenCalledWith(urls[0], expect.objectContaining({ interactive: false, label: 'app#1' }));
+    });
+
+    it('records a failing or crashing issue without stopping the others', async () => {
+        runMock.mockImplementation(async (issueUrl) => {
+            if (issueUrl.endsWith('/2')) throw new Error('sandbox exploded');
+            if (issueUrl.endsWith('/3')) return { runId: 'c', status: 'failed', error: 'tests failed', attempts: 2, duration: 1, cost: 0, usage: [] };
+            return { runId: 'x', status: 'success', prUrl: 'https://github.com/acme/app/pull/9', attempts: 1, duration: 1, cost: 0, usage: [] };
+        });
+
+        const seen: string[] = [];
+        const results = await runBatch(urls, options, 3, result => seen.push(result.issueUrl));
+
+        expect(results.map(r => r.status)).toEqual(['success', 'failed', 'failed', 'success', 'success']);
+        expect(results[1].error).toBe('sandbox exploded');
+        expect(seen).toHaveLength(5);
+    });
+});
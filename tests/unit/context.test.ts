@@ -0,0 +1,78 @@
+jest.mock('../../src/utils/logger', () => ({
+    logger: {
+        info: jest.fn(),
+        warn: jest.fn(),
+        error: jest.fn(),
+        success: jest.fn(),
+        debug: jest.fn(),
+    },
+}));
+
+import { ContextBuilder, CONTEXT_PRIORITY, limitsFor, LLMProvider } from '../../src/llm';
+import { logger } from '../../src/utils/logger';
+
+// One token per character keeps the arithmetic readable
+const model = { contextWindow: 100_000, charsPerToken: 1 };
+const lines = (prefix: string, count: number) => Array.from({ length: count }, (_, i) => `${prefix}${i}`).join('\n');
+
+describe('Model limits', () => {
+    it('resolves models by longest prefix and falls back to small windows for unknown servers', () => {
+        expect(limitsFor('openai', 'gpt-4.1-mini-2025-04-14').contextWindow).toBe(1_047_576);
+        expect(limitsFor('openai', 'gpt-4o-mini').contextWindow).toBe(128_000);
+        expect(limitsFor('gemini', 'models/gemini-1.5-pro-latest').contextWindow).toBe(2_097_152);
+        expect(limitsFor('openai-compatible', 'llama3').contextWindow).toBe(8_192);
+    });
+
+    it('caps the configured budget by the model context window', () => {
+        const provider = { modelLimits: () => limitsFor('openai-compatible', 'llama3') } as unknown as LLMProvider;
+
+        expect(ContextBuilder.for(provider, 'test', 32_000).budget).toBe(6_144);
+        expect(ContextBuilder.for(provider, 'test', 4_000).budget).toBe(4_000);
+    });
+});
+
+describe('ContextBuilder', () => {
+    beforeEach(() => jest.clearAllMocks());
+
+    it('keeps everything that fits in the budget unchanged', () => {
+        const context = new ContextBuilder('test', model, 1_000)
+            .add({ name: 'issue', priority: CONTEXT_PRIORITY.issue, items: ['The total is wrong'] })
+            .add({ name: 'snippets', priority: CONTEXT_PRIORITY.snippets, items: ['a', 'b'] })
+            .add({ name: 'history', priority: CONTEXT_PRIORITY.history, items: [] })
+            .build();
+
+        expect(context).toEqual({ issue: 'The total is wrong', snippets: 'a\n\nb', history: '' });
+        expect(logger.info).not.toHaveBeenCalled();
+    });
+
+    it('packs by priority, truncates the item that crosses the budget and summarizes dropped ones', () => {
+        const context = new ContextBuilder('engineer', model, 600)
+            // Added first but packed last
+            .add({ name: 'history', priority: CONTEXT_PRIORITY.history, items: ['attempt 1'] })
+            .add({ name: 'issue', priority: CONTEXT_PRIORITY.issue, items: ['x'.repeat(100)] })
+            .add({
+                name: 'snippets',
+                priority: CONTEXT_PRIORITY.snippets,
+                items: [
+                    { text: lines('a', 50), summary: 'a.ts:1-50' },
+                    { text: lines('b', 100), summary: 'b.ts:1-100' },
+                    { text: lines('c', 50), summary: 'c.ts:1-50' },
+                ],
+            })
+            .build();
+
+        expect(context.issue).toBe('x'.repeat(100));
+        expect(context.snippets.startsWith(`${lines('a', 50)}\n\nb0\nb1\n`)).toBe(true);
+        expect(context.snippets).toMatch(/\nb\d+\n\.\.\. \(\d+ more lines truncated\)\n\n\(Not shown to stay within the context budget: c\.ts:1-50\)$/);
+        expect(context.history).toBe('');
+        expect(logger.info).toHaveBeenCalledWith(expect.stringContaining('snippets: dropped 1 of 3, truncated 1; history: dropped 1 of 1'));
+    });
+
+    it('keeps the most recent items of histories', () => {
+        const context = new ContextBuilder('test', model, 30)
+            .add({ name: 'history', priority: CONTEXT_PRIORITY.history, items: ['attempt 1 failed', 'attempt 2 failed'], keep: 'last' })
+            .build();
+
+        expect(context.history).toBe('attempt 2 failed');
+    });
+});
@@ -0,0 +1,114 @@
+jest.mock('execa', () => ({
+    execa: jest.fn(),
+}));
+
+jest.mock('../../src/utils/logger', () => ({
+    logger: {
+        info: jest.fn(),
+        warn: jest.fn(),
+        error: jest.fn(),
+        success: jest.fn(),
+        debug: jest.fn(),
+    },
+}));
+
+import { GitHubClient } from '../../src/tools/github/client';
+import { Cassette, setActiveCassette } from '../../src/utils/cassette';
+
+describe('GitHub client fork flow', () => {
+    const originalFetch = global.fetch;
+    let requests: { method: string; path: string; body?: any }[];
+
+    // Answers REST calls from a table of "METHOD /path" routes; anything else is a 404
+    const serve = (routes: Record<string, [number, unknown]>) => {
+        requests = [];
+        global.fetch = jest.fn(async (input: string | URL | Request, init?: RequestInit) => {
+            const url = new URL(typeof input === 'string' ? input : input instanceof URL ? input.href : input.url);
+            const method = (init?.method || 'GET').toUpperCase();
+            requests.push({ method, path: url.pathname, body: typeof init?.body === 'string' ? JSON.parse(init.body) : undefined });
+            const [status, body] = routes[`${method} ${url.pathname}`] || [404, { message: 'Not Found' }];
+            return new Response(JSON.stringify(body), { status, headers: { 'content-type': 'application/json' } });
+        }) as typeof fetch;
+    };
+
+    beforeEach(() => {
+        // A recording cassette routes Octokit through `fetch` as it is when each request is made
+        setActiveCassette(new Cassette('unused.json', 'record'));
+    });
+
+    afterEach(() => {
+        setActiveCassette(null);
+        global.fetch = originalFetch;
+    });
+
+    it('tells whether the token can push', async () => {
+        serve({
+            'GET /repos/acme/calculator': [200, { permissions: { push: false, pull: true } }],
+            'GET /repos/bot/calculator': [200, { permissions: { push: true } }],
+        });
+        const github = new GitHubClient('token');
+
+        expect(await github.canPush('acme', 'calculator')).toBe(false);
+        expect(await github.canPush('bot', 'calculator')).toBe(true);
+    });
+
+    it('reuses an existing fork of the repository', async () => {
+        serve({
+            'GET /user': [200, { login: 'bot' }],
+            'GET /repos/bot/calculator': [200, { full_name: 'bot/calculator', fork: true, parent: { full_name: 'Acme/Calculator' } }],
+        });
+
+        expect(await new GitHubClient('token').ensureFork('acme', 'calculator')).toEqual({ owner: 'bot', repo: 'calculator' });
+        expect(requests.map(r => `${r.method} ${r.path}`)).toEqual(['GET /user', 'GET /repos/bot/calculator']);
+    });
+
+    it('creates a fork under its own name when the user has none', async () => {
+        serve({
+            'GET /user': [200, { login: 'bot' }],
+            'GET /repos/bot/calculator': [200, { full_name: 'bot/calculator', fork: false }],
+            'POST /repos/acme/calculator/forks': [202, { full_name: 'bot/calculator-1', default_branch: 'main' }],
+            'GET /repos/bot/calculator-1/branches/main': [200, { name: 'main' }],
+        });
+
+        expect(await new GitHubClient('token').ensureFork('acme', 'calculator')).toEqual({ owner: 'bot', repo: 'calculator-1' });
+        expect(requests.map(r => `${r.method} ${r.path}`)).toContain('POST /repos/acme/calculator/forks');
+    });
+
+    it('finds a fork that was renamed through the fork API', async () => {
+        serve({
+            'GET /user': [200, { login: 'bot' }],
+            'POST /repos/acme/calculator/forks': [202, { full_name: 'bot/acme-calculator', default_branch: 'main' }],
+            'GET /repos/bot/acme-calculator/branches/main': [200, { name: 'main' }],
+        });
+
+        expect(await new GitHubClient('token').ensureFork('acme', 'calculator')).toEqual({ owner: 'bot', repo: 'acme-calculator' });
+        expect(requests.map(r => `${r.method} ${r.path}`)).toEqual([
+            'GET /user',
+            'GET /repos/bot/calculator',
+            'POST /repos/acme/calculator/forks',
+            'GET /repos/bot/acme-calculator/branches/main',
+        ]);
+    });
+
+    it('syncs the fork and opens a cross-repository draft pull request', async () => {
+        serve({
+            'POST /repos/bot/calculator/merge-upstream': [422, { message: 'Branch not found' }],
+            'POST /repos/acme/calculator/pulls': [201, { html_url: 'https://github.com/acme/calculator/pull/8', number: 8 }],
+        });
+        const github = new GitHubClient('token');
+
+        expect(await github.syncFork({ owner: 'bot', repo: 'calculator' }, 'main')).toBe(false);
+        const pr = await github.createPR('acme', 'calculator', 'Fix add', 'Closes #7', 'bot:fix/issue-7', 'main', { draft: true, maintainerCanModify: true });
+
+        expect(pr).toEqual({ url: 'https://github.com/acme/calculator/pull/8', number: 8 });
+        expect(requests[0].body).toEqual({ branch: 'main' });
+        expect(requests[1].body).toEqual({
+            title: 'Fix add',
+            body: 'Closes #7',
+            head: 'bot:fix/issue-7',
+            base: 'main',
+            draft: true,
+            maintainer_can_modify: true,
+        });
+    });
+});
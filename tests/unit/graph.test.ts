@@ -1,4 +1,9 @@
 
+jest.mock('chalk', () => {
+    const identity = (s: string) => s;
+    return { __esModule: true, default: { magenta: identity, cyan: identity } };
+});
+
 jest.mock('../../src/tools/github/client', () => ({
     GitHubClient: jest.fn().mockImplementation(() => ({
         getIssue: jest.fn(),
@@ -6,12 +11,20 @@ jest.mock('../../src/tools/github/client', () => ({
     })),
 }));
 
+jest.mock('../../src/tools/git/service', () => ({
+    GitService: jest.fn(),
+}));
+
 jest.mock('../../src/tools/search/ripgrep', () => ({
     RipgrepSearch: jest.fn().mockImplementation(() => ({
         search: jest.fn(),
     })),
 }));
 
+jest.mock('../../src/tools/search/bm25', () => ({
+    Bm25Index: { build: jest.fn() },
+}));
+
 jest.mock('../../src/utils/logger', () => ({
     logger: {
         info: jest.fn(),
@@ -22,6 +35,7 @@ jest.mock('../../src/utils/logger', () => ({
     },
 }));
 
+import { MemorySaver } from '@langchain/langgraph';
 import { createFixGraph } from '../../src/orchestrator/graph';
 
 describe('Fix Graph', () => {
@@ -31,4 +45,19 @@ describe('Fix Graph', () => {
         // Check if it has invoke method (LangGraph compiled graph)
         expect(graph.invoke).toBeDefined();
     });
+
+    it('keeps only the end of recent test logs in the checkpoint', async () => {
+        const graph = createFixGraph(new MemorySaver());
+        const config = { configurable: { thread_id: 'test-results' } };
+        const run = (n: number) => ({ passed: false, output: `run ${n}\n${'x'.repeat(20000)}`, error: 'failed', exitCode: 1 });
+
+        for (let n = 1; n <= 8; n++) {
+            await graph.updateState(config, { testResults: [run(n)] }, 'verify_fix');
+        }
+
+        const { testResults } = (await graph.getState(config)).values;
+        expect(testResults).toHaveLength(5);
+        expect(testResults[0].output).toHaveLength(4003);
+        expect(testResults[4]).toMatchObject({ error: 'failed', exitCode: 1 });
+    });
 });
@@ -0,0 +1,124 @@
+jest.mock('../../src/utils/logger', () => ({
+    logger: {
+        info: jest.fn(),
+        warn: jest.fn(),
+        error: jest.fn(),
+        success: jest.fn(),
+        debug: jest.fn(),
+    },
+}));
+
+import { applyHunks, applyUnifiedDiff, assertScopedChange, PatchConflictError } from '../../src/tools/changes/patch';
+import { ChangeSetError, normalizeChangeSet } from '../../src/tools/changes';
+
+describe('Patch application', () => {
+    const source = [
+        'export function add(a: number, b: number) {',
+        '    return a - b;',
+        '}',
+        '',
+        'export function sub(a: number, b: number) {',
+        '    return a - b;',
+        '}',
+        '',
+    ].join('\r\n');
+
+    it('applies a search/replace hunk and keeps CRLF endings and the trailing newline', () => {
+        const result = applyHunks('math.ts', source, [{
+            search: 'export function add(a: number, b: number) {\n    return a - b;',
+            replace: 'export function add(a: number, b: number) {\n    return a + b;',
+        }]);
+
+        expect(result).toContain('return a + b;\r\n}');
+        expect(result.endsWith('}\r\n')).toBe(true);
+        expect(result.split('\r\n')).toHaveLength(source.split('\r\n').length);
+    });
+
+    it('preserves a UTF-8 byte order mark', () => {
+        const result = applyHunks('a.ts', '\uFEFFconst x = 1;\n', [{ search: 'const x = 1;', replace: 'const x = 2;' }]);
+        expect(result).toBe('\uFEFFconst x = 2;\n');
+    });
+
+    it('matches blocks with different indentation and re-indents the replacement', () => {
+        const result = applyHunks('a.ts', 'function f() {\n    if (x) {\n        run();\n    }\n}\n', [{
+            search: 'if (x) {\n    run();\n}',
+            replace: 'if (x && y) {\n    run();\n}',
+        }]);
+        expect(result).toBe('function f() {\n    if (x && y) {\n        run();\n    }\n}\n');
+    });
+
+    it('reports ambiguous and missing search blocks as conflicts', () => {
+        expect.assertions(3);
+        try {
+            applyHunks('math.ts', source, [
+                { search: '    return a - b;', replace: '    return a + b;' },
+                { search: 'does not exist', replace: '' },
+            ]);
+        } catch (error) {
+            expect(error).toBeInstanceOf(PatchConflictError);
+            expect((error as PatchConflictError).conflicts[0]).toMatch(/ambiguous/);
+            expect((error as PatchConflictError).conflicts[1]).toMatch(/does not match/);
+        }
+    });
+
+    it('matches every hunk against the original text and rejects overlapping hunks', () => {
+        // Against the first hunk's output the second block would be ambiguous
+        const result = applyHunks('a.ts', 'const a = 1;\nconst b = 2;\n', [
+            { search: 'const a = 1;', replace: 'const a = 1;\nconst b = 2;' },
+            { search: 'const b = 2;', replace: 'const b = 3;' },
+        ]);
+        expect(result).toBe('const a = 1;\nconst b = 2;\nconst b = 3;\n');
+
+        // The second block only exists once the first hunk has been applied
+        expect(() => applyHunks('a.ts', 'const a = 1;\nconst b = 2;\n', [
+            { search: 'const a = 1;', replace: 'const c = 3;' },
+            { search: 'const c = 3;', replace: 'const c = 4;' },
+        ])).toThrow(/hunk 2: search block does not match/);
+
+        expect(() => applyHunks('math.ts', source, [
+            { search: 'export function add(a: number, b: number) {\n    return a - b;', replace: 'export function add(a: number, b: number) {\n    return a + b;' },
+            { search: '    return a - b;\n}\n\nexport function sub(a: number, b: number) {', replace: '    return a + b;\n}\n\nexport function sub(a: number, b: number) {' },
+        ])).toThrow(/hunk 2: overlaps the lines hunk 1 changes/);
+    });
+
+    it('keeps the ending of each line in a file that mixes them', () => {
+        const mixed = 'line 1\r\nline 2\nline 3\r\nline 4';
+        const result = applyHunks('mixed.txt', mixed, [
+            { search: 'line 2', replace: 'line two\nline 2.5' },
+            { search: 'line 4', replace: 'line four' },
+        ]);
+        expect(result).toBe('line 1\r\nline two\r\nline 2.5\nline 3\r\nline four');
+    });
+
+    it('applies a unified diff whose hunk header has drifted', () => {
+        const diff = [
+            '--- a/math.ts',
+            '+++ b/math.ts',
+            '@@ -2,3 +2,3 @@',
+            ' export function sub(a: number, b: number) {',
+            '-    return a - b;',
+            '+    return a - b + 0;',
+            ' }',
+        ].join('\n');
+
+        const result = applyUnifiedDiff('math.ts', source, diff);
+        expect(result).toContain('return a - b + 0;');
+        expect(result).toContain('export function add(a: number, b: number) {\r\n    return a - b;');
+    });
+
+    it('rejects edits that send the whole file instead of hunks', () => {
+        const edit = (change: object) => () => normalizeChangeSet({ changes: [{ kind: 'edit', file: 'a.ts', ...change }], explanation: '' });
+
+        expect(edit({ content: 'const x = 2;\n' })).toThrow(ChangeSetError);
+        expect(edit({ content: 'const x = 2;\n' })).toThrow(/send search\/replace hunks/);
+        expect(edit({ hunks: [{ search: 'const x = 1;', replace: 'const x = 2;' }] })).not.toThrow();
+    });
+
+    it('rejects edits that rewrite most of a large file', () => {
+        const original = Array.from({ length: 50 }, (_, i) => `line ${i}`).join('\n');
+        const rewritten = Array.from({ length: 50 }, (_, i) => `  line ${i}`).join('\n');
+
+        expect(() => assertScopedChange('big.ts', original, rewritten)).toThrow(PatchConflictError);
+        expect(() => assertScopedChange('big.ts', original, original.replace('line 7', 'line seven'))).not.toThrow();
+    });
+});
@@ -0,0 +1,106 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { RepoFingerprint } from '../../src/types';
+import { config } from '../../src/utils/config';
+import { applyRepoConfig, ConfigError, excludeMatcher, loadRepoConfig, renderTemplate } from '../../src/utils/repo-config';
+
+describe('Repository configuration', () => {
+    let repo: string;
+    let home: string;
+    const originalDataDir = config.dataDir;
+
+    beforeEach(() => {
+        repo = fs.mkdtempSync(path.join(os.tmpdir(), 'repo-config-'));
+        home = fs.mkdtempSync(path.join(os.tmpdir(), 'repo-config-home-'));
+        config.dataDir = home;
+    });
+
+    afterEach(() => {
+        config.dataDir = originalDataDir;
+        fs.rmSync(repo, { recursive: true, force: true });
+        fs.rmSync(home, { recursive: true, force: true });
+    });
+
+    it('merges the repository file over the user-level one and combines exclusions', () => {
+        fs.writeFileSync(path.join(home, 'config.yml'), 'llm:\n  provider: anthropic\n  model: claude-sonnet-4\nmaxAttempts: 3\nexclude: [vendor/]\n');
+        fs.writeFileSync(path.join(repo, '.oss-dev.yml'), [
+            'commands:',
+            '  test: make check',
+            'llm:',
+            '  model: claude-haiku-4',
+            'exclude:',
+            '  - "*.generated.ts"',
+            'baseBranch: develop',
+        ].join('\n'));
+
+        expect(loadRepoConfig(repo)).toEqual({
+            commands: { test: 'make check' },
+            llm: { provider: 'anthropic', model: 'claude-haiku-4' },
+            maxAttempts: 3,
+            exclude: ['vendor/', '*.generated.ts'],
+            baseBranch: 'develop',
+        });
+        expect(loadRepoConfig()).toMatchObject({ maxAttempts: 3 });
+    });
+
+    it('reports every schema violation with its path', () => {
+        fs.writeFileSync(path.join(repo, '.oss-dev.yml'), [
+            'maxAttempts: three',
+            'commands:',
+            '  tests: pytest',
+            'projectRoot: ../elsewhere',
+            'pullRequest:',
+            '  title: "Fix {{issueNumber}}"',
+        ].join('\n'));
+
+        let error: ConfigError | undefined;
+        try {
+            loadRepoConfig(repo);
+        } catch (e: any) {
+            error = e;
+        }
+
+        expect(error).toBeInstanceOf(ConfigError);
+        expect(error!.file).toBe(path.join(repo, '.oss-dev.yml'));
+        expect(error!.problems).toEqual([
+            "commands: Unrecognized key(s) in object: 'tests'",
+            'projectRoot: Must be a directory inside the repository',
+            'maxAttempts: Expected number, received string',
+            expect.stringMatching(/^pullRequest\.title: Unknown placeholder \{\{issueNumber\}\}; available: \{\{issue\}\}/),
+        ]);
+        expect(error!.message).toMatch(/^Invalid configuration in .*\.oss-dev\.yml:\n {2}- commands:/);
+    });
+
+    it('reports YAML syntax errors with their position', () => {
+        fs.writeFileSync(path.join(repo, '.oss-dev.yaml'), 'commands:\n  test: [unclosed\n');
+
+        expect(() => loadRepoConfig(repo)).toThrow(/Invalid configuration in .*\.oss-dev\.yaml:\n {2}- .*\(line \d+, column \d+\)/);
+    });
+
+    it('pins commands and project root on the detected stack', () => {
+        const detected: RepoFingerprint = {
+            language: 'typescript',
+            runtime: 'node',
+            packageManager: 'pnpm',
+            installCommand: 'pnpm install --frozen-lockfile',
+            testCommand: 'pnpm test',
+            workspace: { tool: 'pnpm', packages: [{ name: 'core', path: 'packages/core', testCommand: 'pnpm --filter core test', dependencies: [] }] },
+        };
+
+        expect(applyRepoConfig(detected, { commands: { lint: 'pnpm lint' } })).toEqual({ ...detected, lintCommand: 'pnpm lint' });
+        const pinned = applyRepoConfig(detected, { commands: { test: 'pnpm test:ci' }, projectRoot: './' });
+        expect(pinned).toMatchObject({ testCommand: 'pnpm test:ci', projectRoot: undefined });
+        expect(pinned.workspace).toBeUndefined();
+    });
+
+    it('renders pull request templates and matches exclusions', () => {
+        expect(renderTemplate('fix: {{ problem }} (closes #{{issue}})', { issue: '7', problem: 'add() subtracts' })).toBe('fix: add() subtracts (closes #7)');
+
+        const excluded = excludeMatcher({ exclude: ['vendor/', '*.generated.ts'] });
+        expect(excluded('vendor/lib/a.go')).toBe(true);
+        expect(excluded('src/api.generated.ts')).toBe(true);
+        expect(excluded('src/api.ts')).toBe(false);
+        expect(excludeMatcher()('anything')).toBe(false);
+    });
+});
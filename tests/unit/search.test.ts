@@ -0,0 +1,319 @@
+jest.mock('execa', () => ({
+    execa: jest.fn(),
+}));
+
+jest.mock('../../src/utils/logger', () => ({
+    logger: {
+        info: jest.fn(),
+        warn: jest.fn(),
+        error: jest.fn(),
+        success: jest.fn(),
+        debug: jest.fn(),
+    },
+}));
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { execa } from 'execa';
+import { Bm25Index } from '../../src/tools/search/bm25';
+import { ProjectMapper } from '../../src/tools/search/mapper';
+import { RipgrepSearch } from '../../src/tools/search/ripgrep';
+import { mergeSnippets, rankSnippets } from '../../src/tools/search/snippets';
+import { SymbolIndex } from '../../src/tools/search/symbols';
+import { CodeSnippet } from '../../src/types';
+import { config } from '../../src/utils/config';
+
+const rgLine = (type: 'match' | 'context', file: string, line: number, text: string) =>
+    JSON.stringify({ type, data: { path: { text: file }, lines: { text: `${text}\n` }, line_number: line } });
+
+const snippet = (file: string, startLine: number, lines: string[], queries: string[]): CodeSnippet => ({
+    file,
+    startLine,
+    endLine: startLine + lines.length - 1,
+    content: lines.join('\n'),
+    relevanceScore: 1,
+    matchLines: [startLine],
+    queries,
+});
+
+describe('Ripgrep snippets', () => {
+    it('collects match and context lines into contiguous blocks', async () => {
+        (execa as unknown as jest.Mock).mockResolvedValue({
+            stdout: [
+                JSON.stringify({ type: 'begin', data: { path: { text: 'src/math.js' } } }),
+                rgLine('context', 'src/math.js', 1, 'function add(a, b) {'),
+                rgLine('match', 'src/math.js', 2, '  return a - b;'),
+                rgLine('context', 'src/math.js', 3, '}'),
+                rgLine('match', 'src/math.js', 9, '  return a - b;'),
+                rgLine('context', 'src/math.js', 10, '}'),
+                JSON.stringify({ type: 'summary', data: {} }),
+            ].join('\n'),
+        });
+
+        const results = await new RipgrepSearch().search('a - b', '/repo', { contextLines: 1 });
+
+        expect(results).toEqual([
+            { file: 'src/math.js', startLine: 1, endLine: 3, content: 'function add(a, b) {\n  return a - b;\n}', relevanceScore: 1, matchLines: [2], queries: ['a - b'] },
+            { file: 'src/math.js', startLine: 9, endLine: 10, content: '  return a - b;\n}', relevanceScore: 1, matchLines: [9], queries: ['a - b'] },
+        ]);
+    });
+
+    it('merges overlapping and adjacent ranges and drops duplicates across queries', () => {
+        const merged = mergeSnippets([
+            snippet('src/math.js', 1, ['a', 'b', 'c'], ['add']),
+            snippet('./src/math.js', 3, ['c', 'd'], ['sub']),
+            snippet('src/math.js', 5, ['e'], ['sub']),
+            snippet('src/math.js', 1, ['a', 'b', 'c'], ['add']),
+            snippet('src/math.js', 20, ['z'], ['add']),
+        ]);
+
+        expect(merged).toHaveLength(2);
+        expect(merged[0]).toMatchObject({ startLine: 1, endLine: 5, content: 'a\nb\nc\nd\ne', matchLines: [1, 3, 5], queries: ['add', 'sub'] });
+        expect(merged[1]).toMatchObject({ startLine: 20, endLine: 20 });
+    });
+
+    it('ranks by query hits, issue keywords and mentioned files and keeps the top results', () => {
+        const ranked = rankSnippets([
+            snippet('lib/other.js', 1, ['unrelated code'], ['add']),
+            snippet('src/math.js', 1, ['function add() {}'], ['add']),
+            snippet('src/format.js', 1, ['format(add())'], ['add', 'format']),
+        ], { keywords: ['add'], mentionedFiles: ['math.js'], limit: 2 });
+
+        expect(ranked.map(s => s.file)).toEqual(['src/math.js', 'src/format.js']);
+        expect(ranked[0].relevanceScore).toBe(1);
+        expect(ranked[1].relevanceScore).toBeLessThan(1);
+    });
+});
+
+describe('Symbol index', () => {
+    const index = SymbolIndex.fromSources({
+        'src/math.ts': [
+            "import { log } from './log';",
+            '',
+            'export function add(a: number, b: number): number {',
+            '    log(`adding ${a} and ${b}`); // keeps { braces } in strings and comments out',
+            '    return a - b;',
+            '}',
+            '',
+            'export class Calculator {',
+            '    private total = 0;',
+            '',
+            '    plus(value: number) {',
+            '        this.total = add(this.total, value);',
+            '        return this;',
+            '    }',
+            '}',
+            '',
+            'export const double = (x: number) => add(x, x);',
+        ].join('\n'),
+        'src/log.ts': 'export function log(message: string) {\n    console.log(message);\n}\n',
+        'calc/stats.py': [
+            'import functools',
+            '',
+            'class Stats:',
+            '    @functools.cache',
+            '    def mean(self, values):',
+            '        total = sum(values)',
+            '',
+            '        return total / len(values)',
+            '',
+            'def _helper():',
+            '    return Stats().mean([1, 2])',
+        ].join('\n'),
+        'calc/calc.go': [
+            'package calc',
+            '',
+            'type Acc struct {',
+            '\ttotal int',
+            '}',
+            '',
+            'func (a *Acc) Add(v int) {',
+            '\ta.total += v',
+            '}',
+        ].join('\n'),
+        'README.md': '# not indexed',
+    });
+
+    it('finds definitions with their full extent in TypeScript, Python and Go', () => {
+        const summary = (name: string) => index.definitions(name).map(s => [s.kind, s.file, s.startLine, s.endLine, s.container]);
+
+        expect(summary('add')).toEqual([['function', 'src/math.ts', 3, 6, undefined]]);
+        expect(summary('Calculator.plus')).toEqual([['method', 'src/math.ts', 11, 14, 'Calculator']]);
+        expect(summary('double')).toEqual([['function', 'src/math.ts', 17, 17, undefined]]);
+        expect(summary('mean')).toEqual([['method', 'calc/stats.py', 4, 8, 'Stats']]);
+        expect(summary('_helper')).toEqual([['function', 'calc/stats.py', 10, 11, undefined]]);
+        expect(summary('Acc')).toEqual([['class', 'calc/calc.go', 3, 5, undefined]]);
+        expect(summary('Add')).toEqual([['method', 'calc/calc.go', 7, 9, 'Acc']]);
+        expect(index.definitions('_helper')[0].exported).toBe(false);
+    });
+
+    it('finds callers and callees', () => {
+        expect(index.callers('add').map(site => [site.line, site.symbol?.name])).toEqual([[12, 'plus'], [17, 'double']]);
+        expect(index.callees(index.definitions('add')[0]).map(s => s.name)).toEqual(['log']);
+    });
+
+    it('widens search windows to whole definitions and adds their neighbours', () => {
+        const expanded = index.expand([{
+            file: 'src/math.ts', startLine: 4, endLine: 5, content: '', relevanceScore: 1, matchLines: [5], queries: ['a - b'],
+        }]);
+
+        expect(expanded[0]).toMatchObject({ startLine: 3, endLine: 6, matchLines: [5], queries: ['a - b'] });
+        expect(expanded[0].content).toContain('return a - b;\n}');
+        expect(expanded.slice(1).map(s => [s.file, s.startLine, s.queries])).toEqual([
+            ['src/log.ts', 1, []],
+            ['src/math.ts', 11, []],
+            ['src/math.ts', 17, []],
+        ]);
+    });
+});
+
+describe('BM25 index', () => {
+    const filler = (n: number) => Array.from({ length: n }, (_, i) => `const value${i} = compute(${i});`);
+
+    it('ranks chunks by the issue vocabulary, splitting identifiers into words', () => {
+        const index = Bm25Index.fromSources({
+            'src/config/loader.ts': [
+                ...filler(45),
+                'export function parseConfigFile(raw: string) {',
+                '    return JSON.parse(stripComments(raw));',
+                '}',
+            ].join('\n'),
+            'src/render.ts': 'export function renderPage(config: object) {\n    return `<p>${JSON.stringify(config)}</p>`;\n}',
+            'docs/notes.md': 'config file parse comments',
+        });
+
+        const hits = index.search('Parsing a config file with comments throws. The config file should parse.', 5);
+
+        expect(hits.map(h => [h.file, h.startLine])).toEqual([['src/config/loader.ts', 31], ['src/render.ts', 1]]);
+        expect(hits[0]).toMatchObject({ endLine: 48, matchLines: [46, 47], relevanceScore: 1, queries: ['bm25'] });
+        expect(hits[0].content).toContain('parseConfigFile');
+        expect(index.search('the and of', 5)).toEqual([]);
+    });
+
+    describe('cache', () => {
+        let repo: string;
+        const dataDir = config.dataDir;
+
+        beforeEach(() => {
+            repo = fs.mkdtempSync(path.join(os.tmpdir(), 'bm25-'));
+            config.dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'bm25-home-'));
+            fs.writeFileSync(path.join(repo, 'math.js'), 'function add(a, b) {\n  return a - b;\n}\n');
+        });
+
+        afterEach(() => {
+            fs.rmSync(repo, { recursive: true, force: true });
+            fs.rmSync(config.dataDir, { recursive: true, force: true });
+            config.dataDir = dataDir;
+        });
+
+        const gitReports = (status: string) => (execa as unknown as jest.Mock).mockImplementation(async (_: string, args: string[]) => ({
+            stdout: args[0] === 'rev-parse' ? 'a'.repeat(40) : status,
+        }));
+
+        it('reuses the index of a clean checkout of the same commit', async () => {
+            gitReports('');
+            expect((await Bm25Index.build(repo)).size).toBe(1);
+            expect(fs.existsSync(path.join(config.dataDir, 'cache', 'bm25', `${'a'.repeat(40)}.json`))).toBe(true);
+
+            fs.writeFileSync(path.join(repo, 'format.js'), 'function format(n) {\n  return String(n);\n}\n');
+            expect((await Bm25Index.build(repo)).size).toBe(1);
+
+            gitReports('?? format.js');
+            expect((await Bm25Index.build(repo)).size).toBe(2);
+        });
+
+        it('indexes without caching outside a git checkout', async () => {
+            (execa as unknown as jest.Mock).mockRejectedValue(new Error('not a git repository'));
+
+            const index = await Bm25Index.build(repo);
+
+            expect(index.search('add numbers', 1)[0]).toMatchObject({ file: 'math.js', content: 'function add(a, b) {\n  return a - b;\n}\n' });
+            expect(fs.existsSync(path.join(config.dataDir, 'cache'))).toBe(false);
+        });
+    });
+});
+
+describe('Project mapper', () => {
+    let repo: string;
+
+    const write = (file: string, content = '') => {
+        fs.mkdirSync(path.dirname(path.join(repo, file)), { recursive: true });
+        fs.writeFileSync(path.join(repo, file), content);
+    };
+
+    beforeEach(() => {
+        (execa as unknown as jest.Mock).mockRejectedValue(new Error('not a git repository'));
+        repo = fs.mkdtempSync(path.join(os.tmpdir(), 'mapper-'));
+        write('.gitignore', 'dist/\n*.log\n');
+        write('package.json', '{}');
+        write('debug.log');
+        write('dist/index.js');
+        write('node_modules/dep/index.js');
+        write('src/index.ts', "export { add } from './math';\n");
+        write('src/math.ts', 'export function add(a: number, b: number) {\n    return a + b;\n}\nfunction helper() {}\nexport class Calculator {}\n');
+        write('src/generated/.gitignore', '*.ts\n!keep.ts\n');
+        write('src/generated/schema.ts');
+        write('src/generated/keep.ts');
+        write('docs/guide.md');
+        write('docs/api/a.md');
+        write('docs/api/b.md');
+    });
+
+    afterEach(() => {
+        fs.rmSync(repo, { recursive: true, force: true });
+    });
+
+    it('respects .gitignore files at every level and custom ignore rules', async () => {
+        const map = await new ProjectMapper({ ignore: ['docs/api/'] }).getMap(repo);
+
+        expect(map).toBe([
+            'docs/',
+            '  guide.md',
+            'src/',
+            '  generated/',
+            '    .gitignore',
+            '    keep.ts',
+            '  index.ts',
+            '  math.ts',
+            '.gitignore',
+            'package.json',
+        ].join('\n'));
+    });
+
+    it('collapses what does not fit into file counts', async () => {
+        const map = await new ProjectMapper({ maxEntries: 4 }).build(repo);
+
+        expect(map).toMatchObject({ totalFiles: 9, listedFiles: 2 });
+        expect(await new ProjectMapper({ maxEntries: 4 }).getMap(repo)).toBe([
+            'docs/ (3 files)',
+            'src/ (4 files)',
+            '.gitignore',
+            'package.json',
+        ].join('\n'));
+        expect(await new ProjectMapper({ maxEntries: 3 }).getMap(repo)).toBe([
+            'docs/ (3 files)',
+            'src/ (4 files)',
+            '.gitignore',
+            '... 1 more file',
+        ].join('\n'));
+        expect(await new ProjectMapper({ maxEntries: 5 }).getMap(repo)).toBe([
+            'docs/',
+            '  api/ (2 files)',
+            '  ... 1 more file',
+            'src/ (4 files)',
+            '.gitignore',
+            'package.json',
+        ].join('\n'));
+        expect(await new ProjectMapper({ maxDepth: 1 }).getMap(repo)).toContain('src/ (4 files)');
+    });
+
+    it('outlines the exported top-level symbols of each file', async () => {
+        const map = await new ProjectMapper({ outline: true, maxDepth: 1, maxEntries: 50 }).build(repo);
+
+        expect(map.entries.find(e => e.path === 'src')).toMatchObject({ collapsed: true, fileCount: 4 });
+        const outlined = await new ProjectMapper({ outline: true }).getMap(repo);
+        expect(outlined).toContain('  math.ts: add, Calculator');
+        expect(outlined).toContain('  index.ts\n');
+    });
+});
@@ -0,0 +1,201 @@
+jest.mock('../../src/utils/logger', () => ({
+    logger: {
+        info: jest.fn(),
+        warn: jest.fn(),
+        error: jest.fn(),
+        success: jest.fn(),
+        debug: jest.fn(),
+    },
+}));
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { StackDetectorAgent } from '../../src/agents/stack-detector';
+import { LLMProvider } from '../../src/llm';
+import { detectStack } from '../../src/sandbox/fingerprint';
+import { scopedTestCommand } from '../../src/sandbox/workspace';
+import { Sandbox } from '../../src/types';
+
+describe('Rule-based stack detection', () => {
+    let repo: string;
+
+    const write = (files: Record<string, string>) => {
+        for (const [file, content] of Object.entries(files)) {
+            fs.mkdirSync(path.dirname(path.join(repo, file)), { recursive: true });
+            fs.writeFileSync(path.join(repo, file), content);
+        }
+    };
+
+    beforeEach(() => {
+        repo = fs.mkdtempSync(path.join(os.tmpdir(), 'stack-'));
+    });
+
+    afterEach(() => {
+        fs.rmSync(repo, { recursive: true, force: true });
+    });
+
+    it.each([
+        [
+            'pnpm with a test script',
+            { 'package.json': '{"scripts":{"test":"vitest run"}}', 'pnpm-lock.yaml': '', 'tsconfig.json': '{}' },
+            { language: 'typescript', packageManager: 'pnpm', installCommand: 'pnpm install --frozen-lockfile', testCommand: 'pnpm test' },
+        ],
+        [
+            'yarn berry without a test script',
+            { 'package.json': '{"devDependencies":{"jest":"^29"}}', 'yarn.lock': '', '.yarnrc.yml': '' },
+            { language: 'javascript', packageManager: 'yarn', installCommand: 'yarn install --immutable', testCommand: 'yarn jest' },
+        ],
+        [
+            'poetry with tox',
+            { 'pyproject.toml': '[tool.poetry]\nname = "x"\n', 'poetry.lock': '', 'tox.ini': '[tox]\nenvlist = py312\n\n[testenv]\ncommands =\n    pytest tests/ {posargs}\n' },
+            { language: 'python', packageManager: 'poetry', installCommand: 'poetry install', testCommand: 'poetry run pytest tests/' },
+        ],
+        [
+            'pip with a nox session',
+            { 'requirements.txt': 'requests\n', 'requirements-dev.txt': 'nox\n', 'noxfile.py': 'import nox\n\n@nox.session\ndef tests(session):\n    session.run("pytest")\n' },
+            { packageManager: 'pip', installCommand: 'pip install -r requirements.txt -r requirements-dev.txt', testCommand: 'nox -s tests' },
+        ],
+        [
+            'maven with a wrapper',
+            { 'pom.xml': '<project/>', 'mvnw': '' },
+            { language: 'java', packageManager: 'maven', testCommand: './mvnw -B test' },
+        ],
+        [
+            '.NET',
+            { 'App.sln': '' },
+            { language: 'csharp', runtime: 'dotnet', installCommand: 'dotnet restore', testCommand: 'dotnet test' },
+        ],
+        [
+            'composer with a test script',
+            { 'composer.json': '{"scripts":{"test":"phpunit"}}' },
+            { packageManager: 'composer', installCommand: 'composer install --no-interaction', testCommand: 'composer test' },
+        ],
+        [
+            'bundler with rspec',
+            { 'Gemfile': "gem 'rspec'\n", '.rspec': '' },
+            { packageManager: 'bundler', testCommand: 'bundle exec rspec' },
+        ],
+        [
+            'mix',
+            { 'mix.exs': '' },
+            { language: 'elixir', installCommand: 'mix deps.get', testCommand: 'mix test' },
+        ],
+    ])('recognises %s', (_, files, expected) => {
+        write(files);
+
+        const detection = detectStack(repo);
+
+        expect(detection.ambiguous).toBe(false);
+        expect(detection.candidates[0].fingerprint).toMatchObject(expected);
+    });
+
+    it('finds projects in common subdirectories and takes a make target over a guessed test command', () => {
+        write({ 'README.md': '', 'backend/go.mod': 'module x\n', 'server/package.json': '{}', 'server/Makefile': 'test:\n\tnode test.js\n' });
+        expect(detectStack(repo).candidates[0].fingerprint).toMatchObject({ packageManager: 'go', projectRoot: 'backend' });
+
+        fs.rmSync(path.join(repo, 'backend'), { recursive: true });
+        const detection = detectStack(repo);
+        expect(detection.ambiguous).toBe(false);
+        expect(detection.candidates[0]).toMatchObject({ fingerprint: { projectRoot: 'server', testCommand: 'make test' }, confidence: 'high' });
+    });
+
+    it('is ambiguous for guessed test commands and for competing ecosystems', () => {
+        write({ 'package.json': '{}' });
+        expect(detectStack(repo)).toMatchObject({ ambiguous: true, candidates: [{ confidence: 'low' }] });
+
+        write({ 'package.json': '{"scripts":{"test":"jest"}}', 'go.mod': 'module x\n' });
+        expect(detectStack(repo).ambiguous).toBe(true);
+    });
+
+    describe('Workspaces', () => {
+        it('enumerates pnpm packages and scopes test runs to the changed ones and their dependents', () => {
+            write({
+                'package.json': '{"private":true}',
+                'pnpm-lock.yaml': '',
+                'pnpm-workspace.yaml': "packages:\n  - 'packages/*'\n  - '!packages/legacy'\n",
+                'packages/core/package.json': '{"name":"@acme/core","scripts":{"test":"jest"}}',
+                'packages/cli/package.json': '{"name":"@acme/cli","dependencies":{"@acme/core":"workspace:*"},"scripts":{"test":"jest"}}',
+                'packages/docs/package.json': '{"name":"@acme/docs"}',
+                'packages/legacy/package.json': '{"name":"legacy"}',
+            });
+
+            const [{ fingerprint }] = detectStack(repo).candidates;
+
+            expect(fingerprint.testCommand).toBe('pnpm --filter @acme/cli --filter @acme/core test');
+            expect(fingerprint.workspace?.packages.map(p => p.name)).toEqual(['@acme/cli', '@acme/core', '@acme/docs']);
+            expect(scopedTestCommand(fingerprint, ['packages/core/src/index.ts'])).toEqual({
+                command: 'pnpm --filter @acme/cli --filter @acme/core test',
+                packages: ['@acme/cli', '@acme/core'],
+            });
+            expect(scopedTestCommand(fingerprint, ['packages/cli/bin.js'])?.command).toBe('pnpm --filter @acme/cli test');
+            // Root files may affect every package
+            expect(scopedTestCommand(fingerprint, ['tsconfig.base.json'])).toBeUndefined();
+        });
+
+        it('runs the modules of a go.work workspace in a subdirectory by path', () => {
+            write({
+                'backend/go.work': 'go 1.22\n\nuse (\n\t./api\n\t./lib // shared code\n)\n',
+                'backend/api/go.mod': 'module example.com/api\n\nrequire example.com/lib v0.0.0\n',
+                'backend/lib/go.mod': 'module example.com/lib\n',
+            });
+
+            const [{ fingerprint }] = detectStack(repo).candidates;
+
+            expect(fingerprint).toMatchObject({ projectRoot: 'backend', testCommand: 'go test ./api/... ./lib/...' });
+            expect(scopedTestCommand(fingerprint, ['backend/api/main.go'])?.command).toBe('go test ./api/...');
+            expect(scopedTestCommand(fingerprint, ['backend/lib/lib.go'])?.command).toBe('go test ./api/... ./lib/...');
+        });
+
+        it('selects Cargo workspace members by crate name', () => {
+            write({
+                'Cargo.toml': '[workspace]\nmembers = [\n    "crates/*",\n]\n',
+                'crates/parser/Cargo.toml': '[package]\nname = "parser"\n',
+                'crates/cli/Cargo.toml': '[package]\nname = "cli"\n\n[dependencies]\nparser = { path = "../parser" }\n',
+            });
+
+            const [{ fingerprint }] = detectStack(repo).candidates;
+
+            expect(fingerprint.testCommand).toBe('cargo test --workspace');
+            expect(scopedTestCommand(fingerprint, ['crates/cli/src/main.rs'])?.command).toBe('cargo test -p cli');
+            expect(scopedTestCommand(fingerprint, ['crates/parser/src/lib.rs'])?.command).toBe('cargo test -p cli -p parser');
+        });
+    });
+
+    describe('StackDetectorAgent', () => {
+        const provider = (answer?: object) => ({
+            generateJSON: jest.fn().mockImplementation(() => (answer ? Promise.resolve(answer) : Promise.reject(new Error('offline')))),
+            modelLimits: () => ({ contextWindow: 100_000, charsPerToken: 4 }),
+        }) as unknown as LLMProvider & { generateJSON: jest.Mock };
+
+        const sandbox = (tools: string[]) => ({
+            runCommand: jest.fn(async (command: string) => {
+                const tool = command.match(/^command -v (\S+)$/)?.[1];
+                return { exitCode: !tool || tools.includes(tool) ? 0 : 1, stdout: '', stderr: '' };
+            }),
+        }) as unknown as Sandbox & { runCommand: jest.Mock };
+
+        it('only asks the model when the rules are ambiguous', async () => {
+            write({ 'package.json': '{"scripts":{"test":"jest"}}', 'package-lock.json': '{}' });
+            const decided = provider();
+            expect(await new StackDetectorAgent(decided).detectStack(repo)).toMatchObject({ installCommand: 'npm ci', testCommand: 'npm test' });
+            expect(decided.generateJSON).not.toHaveBeenCalled();
+
+            write({ 'go.mod': 'module x\n' });
+            const tieBreaker = provider({ language: 'go', runtime: 'go', packageManager: 'go', installCommand: 'go mod download', testCommand: 'go test ./...' });
+            expect((await new StackDetectorAgent(tieBreaker).detectStack(repo)).language).toBe('go');
+            expect(tieBreaker.generateJSON.mock.calls[0][0]).toContain('CANDIDATES FROM LOCKFILES AND MANIFESTS');
+        });
+
+        it('switches to a candidate the sandbox can run when the preferred tool is missing', async () => {
+            write({ 'pyproject.toml': '[project]\nname = "x"\n\n[tool.pytest.ini_options]\n', 'uv.lock': '' });
+            const box = sandbox(['pip', 'pytest']);
+
+            const fingerprint = await new StackDetectorAgent(provider()).detectStack(repo, box);
+
+            expect(fingerprint).toMatchObject({ packageManager: 'pip', installCommand: 'pip install -e .', testCommand: 'pytest' });
+            expect(box.runCommand).toHaveBeenCalledWith('command -v uv');
+            expect(box.runCommand).toHaveBeenCalledWith('pip install -e .');
+        });
+    });
+});
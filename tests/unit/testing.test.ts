@@ -0,0 +1,238 @@
+jest.mock('../../src/utils/logger', () => ({
+    logger: {
+        info: jest.fn(),
+        warn: jest.fn(),
+        error: jest.fn(),
+        success: jest.fn(),
+        debug: jest.fn(),
+    },
+}));
+
+import {
+    describeFailures,
+    failedBeforeTests,
+    judgeAgainstBaseline,
+    parseCargoOutput,
+    parseGoTestJson,
+    parseJestJson,
+    parseJUnitXml,
+    planTestRun,
+    runTestSuite,
+    scanTestOutput,
+    withTestCases,
+} from '../../src/tools/testing';
+import { Sandbox, TestResult } from '../../src/types';
+
+const run = (output: string, exitCode: number): TestResult =>
+    withTestCases({ passed: exitCode === 0, output, error: '', exitCode });
+
+describe('Test output scanning', () => {
+    it('reads cases from go, cargo, pytest, TAP and jest reporters', () => {
+        const output = [
+            '--- PASS: TestAdd (0.01s)',
+            '--- FAIL: TestSub (0.00s)',
+            'test math::divides ... ok',
+            'tests/test_math.py::test_mul PASSED',
+            'not ok 2 - rounds down',
+            '    ✓ formats numbers (3 ms)',
+            '    ✕ parses numbers',
+        ].join('\n');
+
+        expect(scanTestOutput(output)).toEqual([
+            { name: 'TestAdd', status: 'passed', duration: 10 },
+            { name: 'TestSub', status: 'failed', duration: 0 },
+            { name: 'math::divides', status: 'passed' },
+            { name: 'tests/test_math.py::test_mul', file: 'tests/test_math.py', status: 'passed' },
+            { name: 'rounds down', status: 'failed' },
+            { name: 'formats numbers', status: 'passed', duration: 3 },
+            { name: 'parses numbers', status: 'failed' },
+        ].map(c => expect.objectContaining(c)));
+    });
+
+    it('keeps the worst status and the failure message of a repeated case', () => {
+        const cases = scanTestOutput([
+            'tests/test_math.py::test_add FAILED',
+            'FAILED tests/test_math.py::test_add - AssertionError: 3 != 4',
+        ].join('\n'));
+
+        expect(cases).toHaveLength(1);
+        expect(cases[0]).toMatchObject({ status: 'failed', message: 'AssertionError: 3 != 4' });
+    });
+});
+
+describe('Test runner reports', () => {
+    it('reads Jest JSON, including suites that failed to load', () => {
+        const report = JSON.stringify({
+            testResults: [
+                {
+                    name: '/repo/test/math.test.js',
+                    status: 'failed',
+                    assertionResults: [
+                        { fullName: 'math adds', status: 'passed', duration: 4, failureMessages: [] },
+                        { fullName: 'math subtracts', status: 'failed', duration: 2, failureMessages: ['\u001b[31mExpected: 1\nReceived: 5\u001b[39m'] },
+                        { fullName: 'math divides', status: 'pending', failureMessages: [] },
+                    ],
+                },
+                { name: '/repo/test/broken.test.js', status: 'failed', message: 'SyntaxError: Unexpected token', assertionResults: [] },
+            ],
+        });
+
+        expect(parseJestJson(report)).toEqual([
+            expect.objectContaining({ name: 'math adds', file: '/repo/test/math.test.js', status: 'passed', duration: 4 }),
+            expect.objectContaining({ name: 'math subtracts', status: 'failed', message: 'Expected: 1\nReceived: 5' }),
+            expect.objectContaining({ name: 'math divides', status: 'skipped' }),
+            expect.objectContaining({ name: '/repo/test/broken.test.js', status: 'failed', message: 'SyntaxError: Unexpected token' }),
+        ]);
+        expect(parseJestJson('not json')).toEqual([]);
+    });
+
+    it('reads JUnit XML from pytest', () => {
+        const xml = `<?xml version="1.0" encoding="utf-8"?>
+<testsuites><testsuite name="pytest" tests="3">
+<testcase classname="tests.test_math" name="test_add" time="0.002" />
+<testcase classname="tests.test_math" name="test_sub" time="0.010"><failure message="assert 5 == 1">def test_sub():
+&gt;       assert sub(3, 2) == 1</failure></testcase>
+<testcase classname="tests.test_math" name="test_div"><skipped message="todo" /></testcase>
+</testsuite></testsuites>`;
+
+        expect(parseJUnitXml(xml)).toEqual([
+            { name: 'tests.test_math.test_add', file: undefined, status: 'passed', duration: 2, message: undefined },
+            { name: 'tests.test_math.test_sub', file: undefined, status: 'failed', duration: 10, message: 'assert 5 == 1\ndef test_sub():\n>       assert sub(3, 2) == 1' },
+            { name: 'tests.test_math.test_div', file: undefined, status: 'skipped', duration: undefined, message: undefined },
+        ]);
+    });
+
+    it('reads go test -json events and keeps the output of failing tests', () => {
+        const events = [
+            { Action: 'run', Package: 'example.com/calc', Test: 'TestAdd' },
+            { Action: 'output', Package: 'example.com/calc', Test: 'TestAdd', Output: '=== RUN   TestAdd\n' },
+            { Action: 'output', Package: 'example.com/calc', Test: 'TestAdd', Output: '    calc_test.go:9: got 5, want 1\n' },
+            { Action: 'output', Package: 'example.com/calc', Test: 'TestAdd', Output: '--- FAIL: TestAdd (0.00s)\n' },
+            { Action: 'fail', Package: 'example.com/calc', Test: 'TestAdd', Elapsed: 0.001 },
+            { Action: 'pass', Package: 'example.com/calc', Test: 'TestSub', Elapsed: 0 },
+            { Action: 'fail', Package: 'example.com/calc' },
+            { Action: 'output', Package: 'example.com/broken', Output: 'calc.go:3:1: syntax error\n' },
+            { Action: 'fail', Package: 'example.com/broken' },
+        ].map(e => JSON.stringify(e)).join('\n');
+
+        expect(parseGoTestJson(events)).toEqual([
+            { name: 'example.com/calc::TestAdd', file: 'example.com/calc', status: 'failed', duration: 1, message: 'calc_test.go:9: got 5, want 1' },
+            { name: 'example.com/calc::TestSub', file: 'example.com/calc', status: 'passed', duration: 0 },
+            { name: 'example.com/broken', file: 'example.com/broken', status: 'failed', message: 'calc.go:3:1: syntax error' },
+        ]);
+    });
+
+    it('reads cargo test output with the panic message of failing tests', () => {
+        const output = [
+            'running 2 tests',
+            'test math::adds ... FAILED',
+            'test math::subs ... ok',
+            '',
+            'failures:',
+            '',
+            '---- math::adds stdout ----',
+            "thread 'math::adds' panicked at src/lib.rs:10:9:",
+            'assertion `left == right` failed',
+            '',
+            'failures:',
+            '    math::adds',
+            '',
+            'test result: FAILED. 1 passed; 1 failed',
+        ].join('\n');
+
+        expect(parseCargoOutput(output)).toEqual([
+            { name: 'math::adds', status: 'failed', message: "thread 'math::adds' panicked at src/lib.rs:10:9:\nassertion `left == right` failed" },
+            { name: 'math::subs', status: 'passed' },
+        ]);
+    });
+
+    it('adds reporter flags only when the runner is known and the command is not chained', () => {
+        expect(planTestRun('npm test', 'jest --coverage')).toEqual({
+            command: 'npm test -- --json --outputFile=.oss-dev-test-report.json',
+            format: 'jest-json',
+            reportFile: '.oss-dev-test-report.json',
+        });
+        expect(planTestRun('pnpm test', 'vitest run').command).toBe('pnpm test --reporter=default --reporter=json --outputFile.json=.oss-dev-test-report.json');
+        expect(planTestRun('python -m pytest -x').command).toBe('python -m pytest -x --junitxml=.oss-dev-test-report.xml');
+        expect(planTestRun('go test ./...')).toEqual({ command: 'go test -json ./...', format: 'go-json' });
+        expect(planTestRun('npm test', 'tsc && jest')).toEqual({ command: 'npm test' });
+        expect(planTestRun('npm test', 'node test.js')).toEqual({ command: 'npm test' });
+    });
+
+    it('reads package.json and the report from the project root the command runs in', async () => {
+        // Paths are relative to the repository root, as in every sandbox
+        const files = new Map<string, string>([
+            ['package.json', JSON.stringify({ scripts: { test: 'turbo run test' } })],
+            ['packages/app/package.json', JSON.stringify({ scripts: { test: 'jest' } })],
+        ]);
+        const report = { testResults: [{ name: '/repo/packages/app/math.test.js', status: 'failed', message: '', assertionResults: [{ fullName: 'adds', status: 'failed', failureMessages: ['expected 5'] }] }] };
+        const sandbox = {
+            exists: async (file: string) => files.has(file),
+            readFile: async (file: string) => files.get(file)!,
+            deleteFile: async (file: string) => { files.delete(file); },
+            runTests: jest.fn(async () => {
+                files.set('packages/app/.oss-dev-test-report.json', JSON.stringify(report));
+                return { passed: false, output: '', error: '', exitCode: 1 };
+            }),
+        } as unknown as Sandbox;
+
+        const result = await runTestSuite(sandbox, 'npm test', { projectRoot: 'packages/app' });
+
+        expect(sandbox.runTests).toHaveBeenCalledWith('npm test -- --json --outputFile=.oss-dev-test-report.json');
+        expect(result.cases).toEqual([expect.objectContaining({ name: 'adds', status: 'failed' })]);
+        expect(files.has('packages/app/.oss-dev-test-report.json')).toBe(false);
+    });
+
+    it('describes failures by test and message instead of raw output', () => {
+        const result = {
+            ...run('', 1),
+            cases: parseCargoOutput('test a ... FAILED\ntest b ... ok\n---- a stdout ----\nboom\nfailures:'),
+            delta: { newlyFailing: ['a'], newlyPassing: [], stillFailing: [] },
+            error: 'x'.repeat(100000),
+        };
+
+        expect(describeFailures(result)).toBe('1 failing test:\n- a [passed before the change]\n    boom');
+    });
+});
+
+describe('Regression test runs', () => {
+    it('accepts a run only when it got as far as a failing test', () => {
+        expect(failedBeforeTests(run('not ok 1 - adds\n', 1))).toBeUndefined();
+        expect(failedBeforeTests(run('AssertionError [ERR_ASSERTION]: -1 == 5', 1))).toBeUndefined();
+
+        expect(failedBeforeTests(run('sh: 1: vitset: not found', 127))).toMatch(/could not be run/);
+        expect(failedBeforeTests(run('ok 1 - adds\n', 1))).toMatch(/none of its tests did/);
+        expect(failedBeforeTests(run("Error: Cannot find module '../src/maths'", 1))).toMatch(/did not load \(Cannot find module\)/);
+        expect(failedBeforeTests(run('SyntaxError: Unexpected token }', 1))).toMatch(/did not load/);
+    });
+});
+
+describe('Verification against the baseline', () => {
+    const baseline = run('--- PASS: TestAdd\n--- FAIL: TestLegacy\n--- FAIL: TestIssue', 1);
+
+    it('accepts a fix that leaves only pre-existing failures', () => {
+        const verdict = judgeAgainstBaseline(baseline, run('--- PASS: TestAdd\n--- FAIL: TestLegacy\n--- PASS: TestIssue', 1));
+
+        expect(verdict.passed).toBe(true);
+        expect(verdict.delta).toEqual({ newlyFailing: [], newlyPassing: ['TestIssue'], stillFailing: ['TestLegacy'] });
+    });
+
+    it('rejects a fix that breaks a test that passed before', () => {
+        const verdict = judgeAgainstBaseline(baseline, run('--- FAIL: TestAdd\n--- FAIL: TestLegacy\n--- PASS: TestIssue', 1));
+
+        expect(verdict.passed).toBe(false);
+        expect(verdict.reason).toContain('TestAdd');
+    });
+
+    it('rejects a fix that changes no outcome unless the regression test passes', () => {
+        const unchanged = run('--- PASS: TestAdd\n--- FAIL: TestLegacy\n--- FAIL: TestIssue', 1);
+
+        expect(judgeAgainstBaseline(baseline, unchanged).passed).toBe(false);
+        expect(judgeAgainstBaseline(baseline, unchanged, true).passed).toBe(true);
+    });
+
+    it('falls back to the exit code when no cases can be read', () => {
+        expect(judgeAgainstBaseline(run('boom', 1), run('still boom', 1), true).passed).toBe(false);
+        expect(judgeAgainstBaseline(undefined, run('all good', 0)).passed).toBe(true);
+    });
+});